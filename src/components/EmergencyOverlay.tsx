@@ -2,10 +2,13 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { AlertTriangle, X, Phone, MapPin, CheckCircle } from 'lucide-react';
 import { speak, vibrateEmergency } from '@/lib/voiceOutput';
 import { useEffect, useState } from 'react';
+import { describeEmergencyLocation, type EmergencyLocation } from '@/lib/offlineStorage';
+
+const STALE_LOCATION_SECONDS = 30; // Older than this, warn that the pin may be off
 
 interface EmergencyOverlayProps {
   isActive: boolean;
-  location: { lat: number; lng: number } | null;
+  location: EmergencyLocation | null;
   onCancel: () => void;
   onResolve: () => void;
 }
@@ -97,9 +100,14 @@ export function EmergencyOverlay({ isActive, location, onCancel, onResolve }: Em
               
               {/* Location */}
               {location && (
-                <div className="flex items-center gap-2 text-muted-foreground text-sm">
-                  <MapPin className="w-4 h-4" />
-                  <span>Location will be shared</span>
+                <div className="flex flex-col items-center gap-1 text-muted-foreground text-sm">
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4" />
+                    <span>Location will be shared</span>
+                  </div>
+                  {(location.age_seconds > STALE_LOCATION_SECONDS || location.source === 'dead_reckoning') && (
+                    <span className="text-xs text-warning">{describeEmergencyLocation(location)}</span>
+                  )}
                 </div>
               )}
               
@@ -153,6 +161,9 @@ export function EmergencyOverlay({ isActive, location, onCancel, onResolve }: Em
                   <div className="text-xs text-muted-foreground mt-1">
                     {location.lat.toFixed(4)}, {location.lng.toFixed(4)}
                   </div>
+                  <div className="text-xs text-muted-foreground">
+                    {describeEmergencyLocation(location)}
+                  </div>
                 </div>
               )}
               
@@ -0,0 +1,110 @@
+// Fatigue baseline section for Settings page
+// Shows how far the rider's own fatigue baseline has been learned per road type, and resets it
+
+import { useState, useEffect } from 'react';
+import { Activity, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import {
+  getCalibrationProgress,
+  getFatigueBaseline,
+  isCalibrated,
+  resetFatigueBaseline,
+  ROAD_TYPES,
+  type FatigueBaseline,
+  type RoadType,
+} from '@/lib/fatigueBaseline';
+import { getVehicleProfile, type VehicleType } from '@/lib/vehicleProfiles';
+
+const ROAD_LABELS: Record<RoadType, string> = {
+  smooth: 'Smooth roads',
+  mixed: 'Mixed roads',
+  rough: 'Rough roads',
+};
+
+export function FatigueBaselineSection({ vehicleType }: { vehicleType: VehicleType }) {
+  const [baseline, setBaseline] = useState<FatigueBaseline | null>(null);
+
+  useEffect(() => {
+    setBaseline(getFatigueBaseline(vehicleType));
+  }, [vehicleType]);
+
+  const handleReset = () => {
+    resetFatigueBaseline(vehicleType);
+    setBaseline(getFatigueBaseline(vehicleType));
+    toast.success('Fatigue baseline reset');
+  };
+
+  if (!baseline) return null;
+
+  const vehicle = getVehicleProfile(vehicleType);
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+        <Activity className="w-4 h-4" />
+        <span>Fatigue Baseline</span>
+      </div>
+      <div className="bg-card border border-border rounded-xl p-4 space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Learned from the start of your rides on the {vehicle.name.toLowerCase()}, while you're fresh.
+          Fatigue alerts compare you with your own normal once a road type is learned.
+        </p>
+        {ROAD_TYPES.map(type => {
+          const road = baseline.roads[type];
+          const progress = getCalibrationProgress(road);
+          return (
+            <div key={type} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{ROAD_LABELS[type]}</span>
+                <span className="text-muted-foreground">
+                  {isCalibrated(road) ? 'Learned' : `${Math.round(progress * 100)}%`}
+                </span>
+              </div>
+              <Progress value={progress * 100} className="h-2" />
+            </div>
+          );
+        })}
+        <div className="flex items-center justify-between pt-2">
+          <span className="text-xs text-muted-foreground">
+            {baseline.rides} ride{baseline.rides === 1 ? '' : 's'}
+            {baseline.updatedAt > 0 && ` · updated ${new Date(baseline.updatedAt).toLocaleDateString()}`}
+          </span>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={baseline.rides === 0}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Reset fatigue baseline?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Fatigue alerts go back to general thresholds until your next few rides are learned.
+                  Useful after a new phone mount or a change of route.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleReset}>Reset</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,156 @@
+// Fatigue timeline for Ride History
+// What made up the fatigue score through the ride, the panic score, and each voice nudge
+// with the factors behind it and whether the rider stopped afterwards
+
+import { useState } from 'react';
+import { Area, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Activity, CheckCircle, ChevronDown, ChevronUp, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  explainNudge,
+  FATIGUE_COMPONENT_LABELS,
+  NUDGE_LABELS,
+  type FatigueComponents,
+  type FatigueNudge,
+  type FatigueTimeline,
+} from '@/lib/fatigueTimeline';
+import { SUGGESTED_REST_MS } from '@/lib/restCompliance';
+
+const COMPONENT_KEYS = Object.keys(FATIGUE_COMPONENT_LABELS) as (keyof FatigueComponents)[];
+
+const chartConfig: ChartConfig = {
+  time: { label: FATIGUE_COMPONENT_LABELS.time, color: 'hsl(var(--primary))' },
+  accel: { label: FATIGUE_COMPONENT_LABELS.accel, color: 'hsl(200 80% 55%)' },
+  gyro: { label: FATIGUE_COMPONENT_LABELS.gyro, color: 'hsl(260 60% 62%)' },
+  heat: { label: FATIGUE_COMPONENT_LABELS.heat, color: 'hsl(var(--warning))' },
+  shift: { label: FATIGUE_COMPONENT_LABELS.shift, color: 'hsl(0 0% 55%)' },
+  steering: { label: FATIGUE_COMPONENT_LABELS.steering, color: 'hsl(320 65% 58%)' },
+  panic: { label: 'Panic', color: 'hsl(var(--danger))' },
+};
+
+const REASON_LABELS: Record<FatigueNudge['reason'], string> = {
+  fatigue: 'Fatigue',
+  panic: 'Erratic riding',
+  micro_sleep: 'Micro-sleep',
+};
+
+function getNudgeColor(nudge: FatigueNudge): string {
+  if (nudge.stoppedAfter === null) return 'hsl(var(--muted-foreground))';
+  return nudge.stoppedAfter ? 'hsl(var(--safe))' : 'hsl(var(--danger))';
+}
+
+function describeOutcome(nudge: FatigueNudge): string {
+  if (nudge.stoppedAfter === null) return 'Stops not recorded';
+  const asked = SUGGESTED_REST_MS[nudge.level];
+  if (!nudge.stoppedAfter) {
+    return asked > 0 ? `Kept riding (asked to rest ${Math.round(asked / 60000)} min)` : 'Kept riding';
+  }
+  if (nudge.rideEnded) return 'Ended the ride';
+  return nudge.restMs && nudge.restMs >= 60000 ? `Rested ${Math.round(nudge.restMs / 60000)} min` : 'Rider stopped';
+}
+
+function toMinutes(ms: number): number {
+  return Math.round(ms / 6000) / 10;
+}
+
+export function FatigueTimelineChart({ timeline }: { timeline: FatigueTimeline }) {
+  const [open, setOpen] = useState(false);
+
+  if (timeline.points.length === 0 && timeline.nudges.length === 0) return null;
+
+  const data = timeline.points.map(point => ({ ...point, minute: toMinutes(point.t) }));
+  const peak = Math.max(0, ...timeline.points.map(p => p.fatigue));
+
+  return (
+    <div className="pt-2 border-t border-border space-y-2">
+      <button
+        className="w-full flex items-center justify-between text-xs font-medium text-muted-foreground uppercase tracking-wide"
+        onClick={() => setOpen(!open)}
+      >
+        <span className="flex items-center gap-1.5">
+          <Activity className="w-3.5 h-3.5" />
+          Fatigue (peak {peak}
+          {timeline.nudges.length > 0 && `, ${timeline.nudges.length} ${timeline.nudges.length === 1 ? 'alert' : 'alerts'}`})
+        </span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {open && (
+        <>
+          {data.length > 1 && (
+            <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+              <ComposedChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: -20 }}>
+                <XAxis
+                  dataKey="minute"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={(m: number) => `${Math.round(m)}m`}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis domain={[0, 100]} ticks={[0, 30, 50, 70, 100]} tickLine={false} axisLine={false} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload.minute ?? 0} min`} />}
+                />
+                {COMPONENT_KEYS.map(key => (
+                  <Area
+                    key={key}
+                    dataKey={key}
+                    type="monotone"
+                    stackId="fatigue"
+                    stroke={`var(--color-${key})`}
+                    fill={`var(--color-${key})`}
+                    fillOpacity={0.35}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Line
+                  dataKey="panic"
+                  type="monotone"
+                  stroke="var(--color-panic)"
+                  strokeDasharray="4 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+                {timeline.nudges.map((nudge, i) => (
+                  <ReferenceLine
+                    key={i}
+                    x={toMinutes(nudge.t)}
+                    stroke={getNudgeColor(nudge)}
+                    strokeWidth={2}
+                  />
+                ))}
+              </ComposedChart>
+            </ChartContainer>
+          )}
+
+          {timeline.nudges.map((nudge, i) => {
+            const factors = explainNudge(nudge);
+            return (
+              <div key={i} className="flex items-start gap-2 text-sm">
+                {nudge.stoppedAfter ? (
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-safe" />
+                ) : (
+                  <XCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${nudge.stoppedAfter === false ? 'text-danger' : 'text-muted-foreground'}`} />
+                )}
+                <div>
+                  <span className="font-medium">
+                    {format(new Date(timeline.startedAt + nudge.t), 'h:mm a')} · "{NUDGE_LABELS[nudge.level]}"
+                  </span>
+                  <p className="text-muted-foreground text-xs mt-0.5">
+                    {REASON_LABELS[nudge.reason]} {nudge.reason === 'panic' ? nudge.panic : nudge.fatigue}
+                    {factors.length > 0 && ` — ${factors.map(f => `${f.label} +${f.points}`).join(', ')}`}
+                  </p>
+                  <p className="text-muted-foreground text-xs">
+                    {describeOutcome(nudge)}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
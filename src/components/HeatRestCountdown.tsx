@@ -0,0 +1,64 @@
+// Heat break countdown - shown while the rider takes a break the heat cycle asked for
+// Counts down the prescribed rest from when the stop began
+
+import { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Droplets, ThermometerSun } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+
+interface HeatRestCountdownProps {
+  restStartedAt: number | null;
+  restEndsAt: number | null;
+  wbgt: number | null;
+  waterMlPerHour: number;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function HeatRestCountdown({ restStartedAt, restEndsAt, wbgt, waterMlPerHour }: HeatRestCountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (restEndsAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [restEndsAt]);
+
+  const isVisible = restStartedAt !== null && restEndsAt !== null;
+  const totalMs = isVisible ? restEndsAt - restStartedAt : 0;
+  const remainingMs = isVisible ? restEndsAt - now : 0;
+  const progress = totalMs > 0 ? Math.min(100, (1 - remainingMs / totalMs) * 100) : 0;
+
+  return (
+    <AnimatePresence>
+      {isVisible && (
+        <motion.div
+          className="w-full max-w-sm bg-orange-500/10 border border-orange-500/30 rounded-xl p-4 space-y-3"
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 10 }}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <ThermometerSun className="w-4 h-4 text-warning" />
+              <span>Heat break{wbgt !== null && ` · WBGT ${wbgt}°C`}</span>
+            </div>
+            <span className="text-2xl font-semibold tabular-nums">
+              {remainingMs > 0 ? formatRemaining(remainingMs) : 'Done'}
+            </span>
+          </div>
+          <Progress value={progress} className="h-2" />
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Droplets className="w-3.5 h-3.5" />
+            <span>Stay in shade. Drink about {Math.round(waterMlPerHour * totalMs / 3600000 / 50) * 50} ml during the break.</span>
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,136 @@
+// Known places section for Settings page
+// Home, hubs and pickup points: idle checks are relaxed there. Learned ones can be
+// renamed, retyped or removed, and the rider can add where they are right now.
+
+import { useState, useEffect } from 'react';
+import { MapPin, Plus, Trash2, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  addKnownPlace,
+  getConfirmedPlaces,
+  removeKnownPlace,
+  updateKnownPlace,
+  KNOWN_PLACE_LABELS,
+  type KnownPlace,
+  type KnownPlaceType,
+} from '@/lib/knownPlaces';
+
+const PLACE_HINTS: Record<KnownPlaceType, string> = {
+  home: 'No idle alerts here',
+  hub: 'Long waits are expected',
+  pickup: 'Short waits are expected',
+};
+
+export function KnownPlacesSection() {
+  const [places, setPlaces] = useState<KnownPlace[]>([]);
+  const [locating, setLocating] = useState(false);
+
+  useEffect(() => {
+    setPlaces(getConfirmedPlaces());
+  }, []);
+
+  const reload = () => setPlaces(getConfirmedPlaces());
+
+  const handleRename = (place: KnownPlace, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === place.name) return;
+    updateKnownPlace(place.id, { name: trimmed });
+    reload();
+  };
+
+  const handleTypeChange = (place: KnownPlace, type: KnownPlaceType) => {
+    updateKnownPlace(place.id, { type });
+    reload();
+  };
+
+  const handleRemove = (place: KnownPlace) => {
+    removeKnownPlace(place.id);
+    reload();
+    toast.success(`Removed ${place.name}`);
+  };
+
+  const handleAddCurrent = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available on this device');
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        addKnownPlace({ lat: position.coords.latitude, lng: position.coords.longitude }, 'pickup');
+        setLocating(false);
+        reload();
+        toast.success('Place added');
+      },
+      () => {
+        setLocating(false);
+        toast.error('Could not get your location');
+      },
+      { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+    );
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+        <MapPin className="w-4 h-4" />
+        <span>Known Places</span>
+      </div>
+      <div className="bg-card border border-border rounded-xl divide-y divide-border">
+        {places.length === 0 && (
+          <p className="p-4 text-sm text-muted-foreground">
+            Places you stop at often are learned after a few rides, so waiting there doesn't look like an emergency.
+          </p>
+        )}
+        {places.map(place => (
+          <div key={place.id} className="p-4 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                key={place.name}
+                defaultValue={place.name}
+                className="flex-1"
+                onBlur={(e) => handleRename(place, e.target.value)}
+              />
+              <Select value={place.type} onValueChange={(v) => handleTypeChange(place, v as KnownPlaceType)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KNOWN_PLACE_LABELS) as KnownPlaceType[]).map(type => (
+                    <SelectItem key={type} value={type}>{KNOWN_PLACE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="ghost" size="icon" onClick={() => handleRemove(place)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {place.source === 'learned' && <Sparkles className="w-3 h-3" />}
+              <span>
+                {PLACE_HINTS[place.type]}
+                {place.visits > 0 && ` · ${place.visits} stops`}
+              </span>
+            </div>
+          </div>
+        ))}
+        <div className="p-4">
+          <Button variant="outline" className="w-full" onClick={handleAddCurrent} disabled={locating}>
+            <Plus className="w-4 h-4 mr-2" />
+            {locating ? 'Locating...' : 'Add Current Location'}
+          </Button>
+        </div>
+      </div>
+    </section>
+  );
+}
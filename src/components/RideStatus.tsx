@@ -1,7 +1,10 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Shield, MapPin, Clock, Activity, Thermometer, CloudRain, Wind, CloudFog } from 'lucide-react';
+import { Shield, LocateFixed, Locate, LocateOff, Clock, Activity, Thermometer, CloudRain, Wind, CloudFog, BatteryFull, BatteryMedium, BatteryLow, BatteryWarning, BatteryCharging } from 'lucide-react';
 import type { RiskEvent } from '@/lib/rideMonitor';
+import { getRiskEventLabel } from '@/lib/riskDetectors';
+import { SAMPLING_TIERS, type BatteryStatus, type SamplingTier } from '@/lib/powerManager';
 import type { WeatherData } from '@/lib/weatherService';
+import { formatLocationAge, type GpsHealth, type LocationEstimate } from '@/lib/gpsHealth';
 import { weatherService } from '@/lib/weatherService';
 
 interface RideStatusProps {
@@ -10,9 +13,13 @@ interface RideStatusProps {
   lastEvent: RiskEvent | null;
   location: { lat: number; lng: number } | null;
   weatherData?: WeatherData | null;
+  samplingTier?: SamplingTier;
+  battery?: BatteryStatus | null;
+  gpsHealth?: GpsHealth;
+  locationEstimate?: LocationEstimate | null;
 }
 
-export function RideStatus({ isActive, duration, lastEvent, location, weatherData }: RideStatusProps) {
+export function RideStatus({ isActive, duration, lastEvent, location, weatherData, samplingTier = 'full', battery, gpsHealth = 'good', locationEstimate }: RideStatusProps) {
   const formatDuration = (seconds: number): string => {
     const hrs = Math.floor(seconds / 3600);
     const mins = Math.floor((seconds % 3600) / 60);
@@ -34,23 +41,6 @@ export function RideStatus({ isActive, duration, lastEvent, location, weatherDat
     }
   };
   
-  const getEventLabel = (type: string): string => {
-    const labels: Record<string, string> = {
-      speed_warning: 'Speed Alert',
-      heat_warning: 'Heat Alert',
-      unsafe_zone: 'Unsafe Area',
-      sudden_stop: 'Sudden Stop',
-      fall_detected: 'Fall Detected',
-      long_idle: 'Idle Warning',
-      wellness_check: 'Check-in',
-      rain_warning: 'Rain Alert',
-      extreme_weather: 'Extreme Weather',
-      high_wind: 'Wind Alert',
-      aqi_warning: 'Air Quality Alert',
-    };
-    return labels[type] || type;
-  };
-
   // Get AQI risk info
   const aqiRisk = weatherService.getAQIRisk(weatherData ?? null);
   const showAQI = aqiRisk && aqiRisk.level !== 'good' && aqiRisk.level !== 'moderate';
@@ -77,6 +67,60 @@ export function RideStatus({ isActive, duration, lastEvent, location, weatherDat
     return 'text-muted-foreground';
   };
   
+  const getTierIcon = () => {
+    if (battery?.charging) return <BatteryCharging className="w-4 h-4" />;
+    switch (samplingTier) {
+      case 'critical': return <BatteryWarning className="w-4 h-4" />;
+      case 'saver': return <BatteryLow className="w-4 h-4" />;
+      case 'balanced': return <BatteryMedium className="w-4 h-4" />;
+      default: return <BatteryFull className="w-4 h-4" />;
+    }
+  };
+  
+  const getTierColor = () => {
+    switch (samplingTier) {
+      case 'critical': return 'text-danger';
+      case 'saver': return 'text-warning';
+      default: return 'text-muted-foreground';
+    }
+  };
+  
+  const getTierTitle = (): string => {
+    const level = battery?.level != null ? ` · Battery ${Math.round(battery.level * 100)}%` : '';
+    const detail = samplingTier === 'critical' ? ' · Crash & fall detection only' : '';
+    return `${SAMPLING_TIERS[samplingTier].label} sensing${level}${detail}`;
+  };
+  
+  const getGpsIcon = () => {
+    switch (gpsHealth) {
+      case 'lost': return <LocateOff className="w-4 h-4" />;
+      case 'degraded': return <Locate className="w-4 h-4" />;
+      default: return <LocateFixed className="w-4 h-4" />;
+    }
+  };
+  
+  const getGpsColor = () => {
+    switch (gpsHealth) {
+      case 'lost': return 'text-danger';
+      case 'degraded': return 'text-warning';
+      default: return 'text-muted-foreground';
+    }
+  };
+  
+  const getGpsLabel = (): string => {
+    switch (gpsHealth) {
+      case 'lost': return locationEstimate ? `GPS lost · ±${locationEstimate.uncertaintyM} m` : 'GPS lost';
+      case 'degraded': return 'GPS weak';
+      default: return 'GPS';
+    }
+  };
+  
+  const getGpsTitle = (): string | undefined => {
+    if (!locationEstimate) return undefined;
+    const estimated = locationEstimate.source === 'dead_reckoning' ? ' · position estimated from heading and speed' : '';
+    return `Last fix ${formatLocationAge(Date.now() - locationEstimate.fixTimestamp)}${estimated}`;
+  };
+  
   const getAQIColor = () => {
     if (!aqiRisk) return 'text-muted-foreground';
     switch (aqiRisk.level) {
@@ -107,7 +151,7 @@ export function RideStatus({ isActive, duration, lastEvent, location, weatherDat
           </div>
           
           {/* Stats Row */}
-          <div className="flex items-center justify-center gap-6">
+          <div className="flex flex-wrap items-center justify-center gap-x-6 gap-y-2">
             {/* Duration */}
             <div className="flex items-center gap-2 text-foreground">
               <Clock className="w-4 h-4 text-muted-foreground" />
@@ -116,14 +160,20 @@ export function RideStatus({ isActive, duration, lastEvent, location, weatherDat
               </span>
             </div>
             
-            {/* Location indicator */}
-            {location && (
-              <div className="flex items-center gap-1 text-muted-foreground">
-                <MapPin className="w-4 h-4" />
-                <span className="text-xs">GPS</span>
+            {/* GPS health */}
+            {(location || gpsHealth !== 'good') && (
+              <div className={`flex items-center gap-1 ${getGpsColor()}`} title={getGpsTitle()}>
+                {getGpsIcon()}
+                <span className="text-xs">{getGpsLabel()}</span>
               </div>
             )}
             
+            {/* Sampling tier */}
+            <div className={`flex items-center gap-1 ${getTierColor()}`} title={getTierTitle()}>
+              {getTierIcon()}
+              <span className="text-xs">{SAMPLING_TIERS[samplingTier].label}</span>
+            </div>
+            
             {/* Weather indicator (only when concerning) */}
             {showWeather && (
               <motion.div 
@@ -171,7 +221,7 @@ export function RideStatus({ isActive, duration, lastEvent, location, weatherDat
               >
                 <Activity className="w-4 h-4" />
                 <span className="text-sm font-medium">
-                  {getEventLabel(lastEvent.type)}
+                  {getRiskEventLabel(lastEvent.type)}
                 </span>
               </motion.div>
             )}
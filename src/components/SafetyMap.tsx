@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, MapPin, Droplet, Coffee, AlertTriangle, Navigation, RefreshCw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
-import { rideMonitor } from '@/lib/rideMonitor';
+import { rideEngine } from '@/lib/rideEngine';
 
 interface SafetyMapProps {
   isOpen: boolean;
@@ -37,7 +37,7 @@ export function SafetyMap({ isOpen, onClose }: SafetyMapProps) {
     if (isOpen) {
       loadData();
       // Get current location
-      const loc = rideMonitor.getCurrentLocation();
+      const loc = rideEngine.getCurrentLocation();
       if (loc) {
         setCurrentLocation(loc);
       } else {
@@ -5,6 +5,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Mic, CheckCircle, AlertTriangle, X } from 'lucide-react';
 import { useEffect, useState } from 'react';
 import { voiceConfirmation, type ConfirmationResult } from '@/lib/voiceConfirmation';
+import { getRiskEventLabel } from '@/lib/riskDetectors';
 
 interface VoiceConfirmationOverlayProps {
   isVisible: boolean;
@@ -77,10 +78,11 @@ export function VoiceConfirmationOverlay({
     const labels: Record<string, string> = {
       'sudden_stop': 'Sudden Stop',
       'fall_detected': 'Fall Detected',
+      'crash_detected': 'Crash Detected',
       'long_idle': 'No Movement',
       'speed_warning': 'High Speed',
     };
-    return labels[type] || 'Alert';
+    return labels[type] || getRiskEventLabel(type);
   };
 
   return (
@@ -0,0 +1,113 @@
+import { useRef, useState } from 'react';
+import { PlayCircle, Upload, AlertTriangle, Brain, Route } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { parseSensorTrace, replaySensorTrace, type TraceReplayResult } from '@/lib/sensorTrace';
+
+export function TraceReplay() {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<TraceReplayResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+    setRunning(true);
+
+    try {
+      const trace = parseSensorTrace(await file.text());
+      setResult(await replaySensorTrace(trace));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Replay failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const peakFatigue = result?.fatigueScores.reduce((max, s) => Math.max(max, s.fatigueScore), 0) ?? 0;
+  const peakPanic = result?.fatigueScores.reduce((max, s) => Math.max(max, s.panicScore), 0) ?? 0;
+
+  return (
+    <div className="space-y-4">
+      {/* Trace picker */}
+      <div className="bg-card border border-border rounded-xl p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <PlayCircle className="w-5 h-5 text-primary" />
+          <span className="font-medium">Replay Sensor Trace</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Run a recorded ride through the current detectors on a virtual clock
+        </p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          className="w-full"
+          disabled={running}
+          onClick={() => inputRef.current?.click()}
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          {running ? 'Replaying...' : fileName ?? 'Choose trace file'}
+        </Button>
+        {error && (
+          <p className="text-sm text-danger">{error}</p>
+        )}
+      </div>
+
+      {result && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="bg-card border border-border rounded-xl p-4">
+              <Route className="w-5 h-5 text-primary mb-2" />
+              <p className="text-2xl font-bold">{(result.distanceTraveled / 1000).toFixed(2)} km</p>
+              <p className="text-xs text-muted-foreground">
+                {Math.round(result.durationMs / 60000)} min replayed
+              </p>
+            </div>
+            <div className="bg-card border border-border rounded-xl p-4">
+              <Brain className="w-5 h-5 text-warning mb-2" />
+              <p className="text-2xl font-bold">{peakFatigue}</p>
+              <p className="text-xs text-muted-foreground">Peak fatigue (panic {peakPanic})</p>
+            </div>
+          </div>
+
+          {/* Risk events */}
+          <div className="bg-card border border-border rounded-xl p-4 space-y-3">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide">
+              Risk Events ({result.riskEvents.length})
+            </h3>
+            {result.riskEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">
+                No risk events in this trace
+              </p>
+            ) : (
+              result.riskEvents.map((event, i) => (
+                <div key={i} className="flex items-center justify-between text-sm">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-4 h-4 text-warning" />
+                    <span className="capitalize">{event.type.replace(/_/g, ' ')}</span>
+                  </div>
+                  <span className="text-muted-foreground tabular-nums">
+                    +{Math.round((event.timestamp - result.startTime) / 1000)}s · {event.severity}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -206,37 +206,52 @@ export type Database = {
       }
       ride_sessions: {
         Row: {
+          active_seconds: number | null
           created_at: string
           device_id: string
           duration_seconds: number | null
           end_location: Json | null
           ended_at: string | null
+          fatigue_timeline: Json | null
           id: string
+          route_polyline: string | null
           start_location: Json | null
+          segments: Json | null
           started_at: string
           status: string
+          vehicle_profile: string | null
         }
         Insert: {
+          active_seconds?: number | null
           created_at?: string
           device_id: string
           duration_seconds?: number | null
           end_location?: Json | null
           ended_at?: string | null
+          fatigue_timeline?: Json | null
           id?: string
+          route_polyline?: string | null
           start_location?: Json | null
+          segments?: Json | null
           started_at?: string
           status?: string
+          vehicle_profile?: string | null
         }
         Update: {
+          active_seconds?: number | null
           created_at?: string
           device_id?: string
           duration_seconds?: number | null
           end_location?: Json | null
           ended_at?: string | null
+          fatigue_timeline?: Json | null
           id?: string
+          route_polyline?: string | null
           start_location?: Json | null
+          segments?: Json | null
           started_at?: string
           status?: string
+          vehicle_profile?: string | null
         }
         Relationships: []
       }
@@ -287,6 +302,45 @@ export type Database = {
           },
         ]
       }
+      road_quality_reports: {
+        Row: {
+          cell_id: string
+          created_at: string
+          device_id: string
+          hit_count: number
+          id: string
+          last_reported_at: string
+          location: Json
+          peak_g: number | null
+          report_type: string
+          severity: string
+        }
+        Insert: {
+          cell_id: string
+          created_at?: string
+          device_id: string
+          hit_count?: number
+          id?: string
+          last_reported_at?: string
+          location: Json
+          peak_g?: number | null
+          report_type: string
+          severity?: string
+        }
+        Update: {
+          cell_id?: string
+          created_at?: string
+          device_id?: string
+          hit_count?: number
+          id?: string
+          last_reported_at?: string
+          location?: Json
+          peak_g?: number | null
+          report_type?: string
+          severity?: string
+        }
+        Relationships: []
+      }
       unsafe_zones: {
         Row: {
           active: boolean | null
@@ -297,6 +351,7 @@ export type Database = {
           reports_count: number | null
           risk_type: string
           severity: string
+          source_cell_id: string | null
           updated_at: string
         }
         Insert: {
@@ -308,6 +363,7 @@ export type Database = {
           reports_count?: number | null
           risk_type: string
           severity?: string
+          source_cell_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -319,10 +375,61 @@ export type Database = {
           reports_count?: number | null
           risk_type?: string
           severity?: string
+          source_cell_id?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      wellness_checks: {
+        Row: {
+          attempts: number
+          emergency_raised: boolean
+          created_at: string
+          device_id: string
+          fatigue_level: string | null
+          feels_like: number | null
+          id: string
+          interval_minutes: number | null
+          response_time_ms: number | null
+          result: string
+          ride_session_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          emergency_raised?: boolean
+          created_at?: string
+          device_id: string
+          fatigue_level?: string | null
+          feels_like?: number | null
+          id?: string
+          interval_minutes?: number | null
+          response_time_ms?: number | null
+          result: string
+          ride_session_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          emergency_raised?: boolean
+          created_at?: string
+          device_id?: string
+          fatigue_level?: string | null
+          feels_like?: number | null
+          id?: string
+          interval_minutes?: number | null
+          response_time_ms?: number | null
+          result?: string
+          ride_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wellness_checks_ride_session_id_fkey"
+            columns: ["ride_session_id"]
+            isOneToOne: false
+            referencedRelation: "ride_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -0,0 +1,148 @@
+// Auto start/stop - notices a rider who forgot to start a ride, and a shift that has ended
+// Low-power watching: coarse GPS plus accelerometer vibration, no risk rules running
+
+import { browserSensorSource, type SensorSource } from './sensorSource';
+import { getSensorHub, type FeatureSubscription, type WindowFeatures } from './sensorHub';
+import { haversineDistance } from './positionFilter';
+import type { CurrentStop } from './rideSegments';
+
+const SETTINGS_KEY = 'kavach_settings';
+
+export type AutoRideMode = 'off' | 'ask' | 'auto';
+
+// Ride start detection
+const MOVING_SPEED_KMH = 12; // Faster than anyone walks or runs
+const SUSTAINED_RIDING_MS = 60 * 1000;
+const MAX_FIX_ACCURACY_M = 100; // Coarse fixes are fine, wild ones are not
+const VIBRATION_FEATURES: FeatureSubscription = { channel: 'magnitude', windowMs: 5000, everyMs: 1000 };
+const RIDING_VIBRATION_STD = 0.5; // m/s² - engine and road vibration through the mount
+
+// Ride end detection
+const AUTO_STOP_STATIONARY_MS = 20 * 60 * 1000;
+
+const OFFER_COOLDOWN_MS = 10 * 60 * 1000; // Don't nag after the rider says no
+
+export function getAutoRideMode(): AutoRideMode {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const mode = saved ? JSON.parse(saved).autoRideMode : null;
+    return mode === 'ask' || mode === 'auto' ? mode : 'off';
+  } catch {
+    return 'off';
+  }
+}
+
+export class AutoRideDetector {
+  private watchId: number | null = null;
+  private removeMotionListener: (() => void) | null = null;
+  private lastFix: { lat: number; lng: number; timestamp: number } | null = null;
+  private ridingSince: number | null = null;
+  private vibration: WindowFeatures | null = null;
+  private lastStartOffer = 0;
+  private lastStopOffer = 0;
+  private onRideDetected: (() => void) | null = null;
+
+  constructor(private source: SensorSource = browserSensorSource) {}
+
+  setRideDetectedHandler(handler: () => void): void {
+    this.onRideDetected = handler;
+  }
+
+  isWatching(): boolean {
+    return this.watchId !== null;
+  }
+
+  // Watch for riding while no ride is active
+  startWatching(): void {
+    if (this.watchId !== null) return;
+
+    this.lastFix = null;
+    this.ridingSince = null;
+    this.vibration = null;
+
+    this.watchId = this.source.watchPosition(
+      this.handlePosition.bind(this),
+      (error) => console.warn('Auto ride GPS error:', error.message),
+      {
+        enableHighAccuracy: false, // Network/coarse location is enough to notice riding
+        timeout: 30000,
+        maximumAge: 15000,
+      }
+    );
+    this.removeMotionListener = getSensorHub(this.source).subscribe(VIBRATION_FEATURES, features => {
+      this.vibration = features;
+    });
+  }
+
+  stopWatching(): void {
+    if (this.watchId !== null) {
+      this.source.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+    if (this.removeMotionListener) {
+      this.removeMotionListener();
+      this.removeMotionListener = null;
+    }
+  }
+
+  // Rider declined - stay quiet for a while
+  snooze(): void {
+    this.lastStartOffer = this.source.now();
+    this.ridingSince = null;
+  }
+
+  // During a ride: has the rider been parked long enough that the shift is probably over?
+  shouldOfferStop(stop: CurrentStop | null): boolean {
+    if (!stop || stop.durationMs < AUTO_STOP_STATIONARY_MS) return false;
+
+    const now = this.source.now();
+    if (now - this.lastStopOffer < OFFER_COOLDOWN_MS) return false;
+
+    this.lastStopOffer = now;
+    return true;
+  }
+
+  // No accelerometer = trust GPS alone
+  private isVibrating(): boolean {
+    if (!this.vibration || this.vibration.count < 10) return true;
+    return this.vibration.std >= RIDING_VIBRATION_STD;
+  }
+
+  private handlePosition(position: GeolocationPosition): void {
+    const { latitude, longitude, accuracy, speed } = position.coords;
+    if (accuracy > MAX_FIX_ACCURACY_M) return;
+
+    const now = this.source.now();
+    const fix = { lat: latitude, lng: longitude, timestamp: position.timestamp };
+    const prev = this.lastFix;
+    this.lastFix = fix;
+
+    // Doppler speed if the device gives it, else from the previous coarse fix
+    let speedKmh: number | null = null;
+    if (speed !== null && speed !== undefined && speed >= 0) {
+      speedKmh = speed * 3.6;
+    } else if (prev && fix.timestamp > prev.timestamp) {
+      const dt = (fix.timestamp - prev.timestamp) / 1000;
+      speedKmh = haversineDistance(prev.lat, prev.lng, fix.lat, fix.lng) / dt * 3.6;
+    }
+    if (speedKmh === null) return;
+
+    if (speedKmh < MOVING_SPEED_KMH || !this.isVibrating()) {
+      this.ridingSince = null;
+      return;
+    }
+
+    if (this.ridingSince === null) {
+      this.ridingSince = now;
+      return;
+    }
+
+    if (now - this.ridingSince >= SUSTAINED_RIDING_MS && now - this.lastStartOffer >= OFFER_COOLDOWN_MS) {
+      this.lastStartOffer = now;
+      this.ridingSince = null;
+      this.onRideDetected?.();
+    }
+  }
+}
+
+export const autoRideDetector = new AutoRideDetector();
@@ -3,6 +3,8 @@
 
 import { getLocationConfidenceAdjustment, getLocationCellId } from './locationMemory';
 import type { RiskEvent } from './rideMonitor';
+import { getRiskDetector } from './riskDetectors';
+import { KNOWN_PLACE_IDLE_CONFIDENCE } from './knownPlaces';
 
 export interface ConfidenceFactors {
   sensorIntensity: number;      // 0-40: Base score from sensor readings
@@ -70,13 +72,15 @@ export function calculateConfidence(
     factors.sensorIntensity = Math.min(40, Math.round(context.sensorIntensity * 0.4));
   }
 
-  // 2. Event type specific adjustments
-  if (event.type === 'fall_detected') {
-    factors.sensorIntensity = Math.min(40, factors.sensorIntensity + 10);
-  } else if (event.type === 'sudden_stop') {
-    factors.sensorIntensity = Math.min(40, factors.sensorIntensity + 5);
-  } else if (event.type === 'speed_warning' || event.type === 'heat_warning') {
-    factors.sensorIntensity = Math.max(10, factors.sensorIntensity - 5);
+  // Crash detector already correlated its signals - use its confidence directly
+  if (event.crashData) {
+    factors.sensorIntensity = Math.min(40, Math.round(event.crashData.confidence * 0.4));
+  }
+
+  // 2. Event type specific adjustments, declared by each type's detector
+  const adjustIntensity = getRiskDetector(event.type)?.adjustIntensity;
+  if (adjustIntensity) {
+    factors.sensorIntensity = Math.min(40, Math.max(0, adjustIntensity(factors.sensorIntensity, event)));
   }
 
   // 3. Pattern duration: check for similar recent events
@@ -95,6 +99,13 @@ export function calculateConfidence(
     );
   }
 
+  // Idle at home or a hub is most likely waiting, not a rider down
+  if (event.type === 'long_idle' && event.place) {
+    factors.locationAdjustment = Math.max(-30,
+      factors.locationAdjustment + KNOWN_PLACE_IDLE_CONFIDENCE[event.place.type]
+    );
+  }
+
   // 5. Time of day (night = higher confidence for same events)
   const hour = new Date().getHours();
   if (hour >= 22 || hour < 5) {
@@ -166,8 +177,8 @@ export function getConfidenceAction(confidence: number): 'suppress' | 'confirm'
 
 // Check if event should trigger emergency automatically
 export function shouldAutoTriggerEmergency(event: ScoredRiskEvent): boolean {
-  // Fall detected with high confidence = auto emergency
-  if (event.type === 'fall_detected' && event.confidence >= CONFIDENCE_THRESHOLDS.EMERGENCY_AUTO) {
+  // Crash/fall detected with high confidence = auto emergency
+  if ((event.type === 'crash_detected' || event.type === 'fall_detected') && event.confidence >= CONFIDENCE_THRESHOLDS.EMERGENCY_AUTO) {
     return true;
   }
   // Critical severity + very high confidence
@@ -0,0 +1,228 @@
+// Multi-signal crash detection
+// Correlates impact G-force, a sharp speed drop, a change in device orientation
+// and the stillness that follows into one crash assessment with its own confidence
+
+import type { OrientationSample } from './sensorSource';
+import type { MotionFrame } from './sensorHub';
+
+export type CrashPhase = 'monitoring' | 'impact' | 'settling';
+
+export interface CrashEvidence {
+  kind: 'crash' | 'fall'; // fall = impact without riding speed, after moving on foot
+  confidence: number; // 0-100
+  impactTime: number;
+  impactG: number;
+  speedBefore: number; // km/h, peak just before impact
+  speedAfter: number; // km/h, lowest after impact
+  orientationChange: number; // degrees
+  stillnessMs: number;
+}
+
+const GRAVITY = 9.81;
+
+// Impact trigger
+const IMPACT_G_THRESHOLD = 3; // Peak acceleration magnitude, in g (default, see vehicle profiles)
+const IMPACT_DELTA_THRESHOLD = 25; // m/s² change between samples (legacy fall rule)
+
+// Post-impact window
+const PRE_IMPACT_WINDOW_MS = 5000; // Speed/orientation baseline before impact
+const IMPACT_PEAK_MS = 1000; // Keep tracking the peak this long after trigger
+const POST_IMPACT_WINDOW_MS = 15000; // Give up correlating after this
+const STILLNESS_TOLERANCE = 0.6; // m/s² deviation from 1g counted as still
+const STILLNESS_REQUIRED_MS = 4000;
+const FREE_FALL_MS = 1000; // A dropped phone's fall just before impact is not walking
+const MOVING_SHARE = 0.5; // Share of pre-impact frames with motion for a rider on foot
+
+// Evidence thresholds
+const RIDING_SPEED_KMH = 12;
+const STOPPED_SPEED_KMH = 5;
+const ORIENTATION_CHANGE_DEG = 35;
+
+// Decision thresholds
+const CRASH_CONFIDENCE_THRESHOLD = 55;
+const FALL_CONFIDENCE_THRESHOLD = 45;
+
+function angleDelta(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+export class CrashDetector {
+  private phase: CrashPhase = 'monitoring';
+  private impactTime = 0;
+  private impactG = 0;
+  private speedBefore = 0;
+  private speedAfter = Infinity;
+  private orientationBefore: { beta: number; gamma: number } | null = null;
+  private orientationAfter: { beta: number; gamma: number } | null = null;
+  private stillSince: number | null = null;
+  private longestStillMs = 0;
+  private movingBefore = false;
+
+  // Short rolling history for pre-impact baselines
+  private recentSpeeds: { timestamp: number; speedKmh: number }[] = [];
+  private recentOrientation: { timestamp: number; beta: number; gamma: number }[] = [];
+  private recentMotion: { timestamp: number; moving: boolean }[] = [];
+
+  private impactThresholdG = IMPACT_G_THRESHOLD;
+
+  constructor(private onAssessment: (evidence: CrashEvidence) => void) {}
+
+  // Per-vehicle impact sensitivity
+  setImpactThreshold(g: number): void {
+    this.impactThresholdG = g;
+  }
+
+  reset(): void {
+    this.phase = 'monitoring';
+    this.recentSpeeds = [];
+    this.recentOrientation = [];
+    this.recentMotion = [];
+  }
+
+  getPhase(): CrashPhase {
+    return this.phase;
+  }
+
+  addSpeed(timestamp: number, speedKmh: number): void {
+    this.recentSpeeds = this.recentSpeeds.filter(s => timestamp - s.timestamp <= PRE_IMPACT_WINDOW_MS);
+    this.recentSpeeds.push({ timestamp, speedKmh });
+
+    if (this.phase !== 'monitoring' && timestamp > this.impactTime) {
+      this.speedAfter = Math.min(this.speedAfter, speedKmh);
+    }
+  }
+
+  addOrientation(sample: OrientationSample): void {
+    const beta = sample.beta || 0;
+    const gamma = sample.gamma || 0;
+    const t = sample.timestamp;
+
+    if (this.phase === 'monitoring') {
+      this.recentOrientation = this.recentOrientation.filter(o => t - o.timestamp <= PRE_IMPACT_WINDOW_MS);
+      this.recentOrientation.push({ timestamp: t, beta, gamma });
+    } else {
+      // Latest settled orientation after impact
+      this.orientationAfter = { beta, gamma };
+    }
+  }
+
+  // Frames from the sensor hub: peak and jolt catch the impact, the mean tracks stillness
+  addMotion(frame: MotionFrame): void {
+    const t = frame.timestamp;
+    const mag = frame.magnitude;
+    const delta = frame.delta;
+    const g = frame.peakMagnitude / GRAVITY;
+
+    switch (this.phase) {
+      case 'monitoring':
+        if (g >= this.impactThresholdG || delta > IMPACT_DELTA_THRESHOLD) {
+          this.beginImpact(t, g);
+          break;
+        }
+        this.recentMotion = this.recentMotion.filter(m => t - m.timestamp <= PRE_IMPACT_WINDOW_MS);
+        this.recentMotion.push({ timestamp: t, moving: Math.abs(mag - GRAVITY) > STILLNESS_TOLERANCE });
+        break;
+
+      case 'impact':
+        this.impactG = Math.max(this.impactG, g);
+        if (t - this.impactTime >= IMPACT_PEAK_MS) {
+          this.phase = 'settling';
+        }
+        break;
+
+      case 'settling':
+        this.trackStillness(t, mag);
+        if (this.longestStillMs >= STILLNESS_REQUIRED_MS || t - this.impactTime >= POST_IMPACT_WINDOW_MS) {
+          this.assess();
+        }
+        break;
+    }
+  }
+
+  private beginImpact(t: number, g: number): void {
+    this.phase = 'impact';
+    this.impactTime = t;
+    this.impactG = g;
+    this.speedBefore = this.recentSpeeds.reduce((max, s) => Math.max(max, s.speedKmh), 0);
+    this.speedAfter = Infinity;
+    this.stillSince = null;
+    this.longestStillMs = 0;
+    this.orientationAfter = null;
+
+    // On foot before the impact: walking keeps the accelerometer busy, a phone at rest doesn't
+    const before = this.recentMotion.filter(m => t - m.timestamp > FREE_FALL_MS);
+    this.movingBefore = before.length > 0 && before.filter(m => m.moving).length / before.length >= MOVING_SHARE;
+    this.recentMotion = [];
+
+    // Average orientation before impact as the "upright" baseline
+    if (this.recentOrientation.length > 0) {
+      const n = this.recentOrientation.length;
+      this.orientationBefore = {
+        beta: this.recentOrientation.reduce((sum, o) => sum + o.beta, 0) / n,
+        gamma: this.recentOrientation.reduce((sum, o) => sum + o.gamma, 0) / n,
+      };
+    } else {
+      this.orientationBefore = null;
+    }
+  }
+
+  private trackStillness(t: number, mag: number): void {
+    if (Math.abs(mag - GRAVITY) <= STILLNESS_TOLERANCE) {
+      if (this.stillSince === null) this.stillSince = t;
+      this.longestStillMs = Math.max(this.longestStillMs, t - this.stillSince);
+    } else {
+      this.stillSince = null;
+    }
+  }
+
+  private assess(): void {
+    const speedAfter = Number.isFinite(this.speedAfter)
+      ? this.speedAfter
+      : (this.recentSpeeds[this.recentSpeeds.length - 1]?.speedKmh ?? 0);
+
+    const orientationChange = this.orientationBefore && this.orientationAfter
+      ? Math.max(
+          angleDelta(this.orientationBefore.beta, this.orientationAfter.beta),
+          angleDelta(this.orientationBefore.gamma, this.orientationAfter.gamma)
+        )
+      : 0;
+
+    const wasRiding = this.speedBefore >= RIDING_SPEED_KMH;
+    const stopped = speedAfter <= STOPPED_SPEED_KMH;
+
+    // Evidence scores (max 100)
+    const impactScore = Math.min(35, Math.max(0, (this.impactG - 2) * 7));
+    const speedScore = wasRiding && stopped ? Math.min(25, (this.speedBefore - speedAfter) * 0.8) : 0;
+    const orientationScore = orientationChange >= ORIENTATION_CHANGE_DEG
+      ? Math.min(20, orientationChange / 4)
+      : 0;
+    const stillnessScore = Math.min(20, (this.longestStillMs / STILLNESS_REQUIRED_MS) * 20);
+
+    const confidence = Math.round(impactScore + speedScore + orientationScore + stillnessScore);
+
+    const evidence: CrashEvidence = {
+      kind: wasRiding ? 'crash' : 'fall',
+      confidence,
+      impactTime: this.impactTime,
+      impactG: Math.round(this.impactG * 10) / 10,
+      speedBefore: Math.round(this.speedBefore),
+      speedAfter: Math.round(speedAfter),
+      orientationChange: Math.round(orientationChange),
+      stillnessMs: this.longestStillMs,
+    };
+
+    this.phase = 'monitoring';
+    this.recentOrientation = [];
+
+    // A fall needs someone moving beforehand: impact, a new angle and stillness
+    // are just as true of a phone knocked off a table
+    if (!wasRiding && !this.movingBefore) return;
+
+    // Pothole, phone drop or a bump that the rider rode through
+    const threshold = wasRiding ? CRASH_CONFIDENCE_THRESHOLD : FALL_CONFIDENCE_THRESHOLD;
+    if (confidence < threshold) return;
+
+    this.onAssessment(evidence);
+  }
+}
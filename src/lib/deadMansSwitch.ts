@@ -0,0 +1,211 @@
+// Dead-man's switch for solo night riding
+// Every few minutes the rider must show they're alright - by voice, a tap or a shake of
+// the phone. No answer within the grace period raises an emergency, which shares the last
+// known location. Can stay on for every ride, or arm itself inside a nightly time window.
+
+import { browserSensorSource, type SensorSource } from './sensorSource';
+import { getSensorHub, type FeatureSubscription } from './sensorHub';
+import { rideEvents } from './rideEvents';
+import { voiceConfirmation } from './voiceConfirmation';
+import { vibrateAlert } from './voiceOutput';
+
+const SETTINGS_KEY = 'kavach_settings';
+
+export type DeadMansSwitchMode = 'off' | 'always' | 'scheduled';
+export type AcknowledgeMethod = 'voice' | 'tap' | 'shake';
+
+export interface DeadMansSwitchSettings {
+  mode: DeadMansSwitchMode;
+  intervalMinutes: number;
+  graceSeconds: number;
+  windowStart: string; // "HH:MM", local time; may wrap past midnight
+  windowEnd: string;
+}
+
+export type DeadMansSwitchEvent =
+  | { phase: 'armed' | 'disarmed'; settings: DeadMansSwitchSettings; timestamp: number }
+  | { phase: 'prompt'; deadline: number; timestamp: number }
+  | { phase: 'acknowledged'; method: AcknowledgeMethod; timestamp: number }
+  | { phase: 'missed'; timestamp: number };
+
+export const DEFAULT_DEAD_MANS_SWITCH: DeadMansSwitchSettings = {
+  mode: 'off',
+  intervalMinutes: 15,
+  graceSeconds: 60,
+  windowStart: '22:00',
+  windowEnd: '05:00',
+};
+
+const TICK_MS = 5000;
+const SHAKE_FEATURES: FeatureSubscription = { channel: 'magnitude', windowMs: 1500, everyMs: 250 };
+const SHAKE_STD = 6; // m/s² - far above riding vibration (~0.5-2.5) or a single pothole
+
+export function getDeadMansSwitchSettings(): DeadMansSwitchSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const stored = saved ? JSON.parse(saved).deadMansSwitch : null;
+    return { ...DEFAULT_DEAD_MANS_SWITCH, ...stored };
+  } catch {
+    return DEFAULT_DEAD_MANS_SWITCH;
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function isInTimeWindow(start: string, end: string, date: Date): boolean {
+  const now = date.getHours() * 60 + date.getMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+  if (from === to) return true;
+  // 22:00-05:00 wraps past midnight
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+export function isDeadMansSwitchArmed(settings: DeadMansSwitchSettings, date = new Date()): boolean {
+  if (settings.mode === 'always') return true;
+  if (settings.mode === 'scheduled') return isInTimeWindow(settings.windowStart, settings.windowEnd, date);
+  return false;
+}
+
+export class DeadMansSwitch {
+  private tickInterval: number | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private armed = false;
+  private nextPromptAt = 0;
+  private emergencyActive = false;
+
+  // The prompt waiting for an answer, if any
+  private deadline: number | null = null;
+  private voicePending = false; // our prompt still holds the voice listener
+  private removeShakeListener: (() => void) | null = null;
+
+  constructor(private source: SensorSource = browserSensorSource) {}
+
+  start(): void {
+    this.stop();
+    this.emergencyActive = false;
+
+    this.unsubscribers = [
+      // Any sign of life from the rider resets the clock
+      rideEvents.on('wellness_check', ({ result }) => {
+        if (result === 'ok') this.resetClock();
+      }),
+      rideEvents.on('confirmation_resolved', ({ result }) => {
+        if (result === 'ok' || result === 'cancelled') this.resetClock();
+      }),
+      rideEvents.on('emergency_triggered', () => {
+        this.emergencyActive = true;
+        this.endPrompt();
+      }),
+      rideEvents.on('emergency_resolved', () => {
+        this.emergencyActive = false;
+        this.resetClock();
+      }),
+    ];
+    this.tickInterval = this.source.setInterval(() => this.tick(), TICK_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.tickInterval !== null) {
+      this.source.clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.endPrompt();
+    this.armed = false;
+  }
+
+  isArmed(): boolean {
+    return this.armed;
+  }
+
+  // Tap on the prompt, or an answer from anywhere else in the app
+  acknowledge(method: AcknowledgeMethod = 'tap'): void {
+    if (this.deadline === null) return;
+    this.endPrompt();
+    this.resetClock();
+    rideEvents.emit('dead_mans_switch', { phase: 'acknowledged', method, timestamp: this.source.now() });
+  }
+
+  private tick(): void {
+    const now = this.source.now();
+    const settings = getDeadMansSwitchSettings();
+
+    // Settings and the time window are re-read every tick, so changes apply mid-ride
+    const armed = isDeadMansSwitchArmed(settings, new Date(now));
+    if (armed !== this.armed) {
+      this.armed = armed;
+      if (!armed) this.endPrompt();
+      this.nextPromptAt = now + settings.intervalMinutes * 60 * 1000;
+      rideEvents.emit('dead_mans_switch', { phase: armed ? 'armed' : 'disarmed', timestamp: now, settings });
+    }
+    if (!this.armed || this.emergencyActive) return;
+
+    if (this.deadline !== null) {
+      if (now >= this.deadline) this.miss(now);
+      return;
+    }
+
+    // Another prompt has the microphone; ask once it's done
+    if (now >= this.nextPromptAt && !voiceConfirmation.isBusy()) {
+      this.prompt(now, settings);
+    }
+  }
+
+  private prompt(now: number, settings: DeadMansSwitchSettings): void {
+    const graceMs = settings.graceSeconds * 1000;
+    this.deadline = now + graceMs;
+    vibrateAlert();
+
+    this.removeShakeListener = getSensorHub(this.source).subscribe(SHAKE_FEATURES, features => {
+      if (features.std >= SHAKE_STD) this.acknowledge('shake');
+    });
+
+    this.voicePending = true;
+    voiceConfirmation.start({
+      prompt: 'dead_mans_switch',
+      timeoutMs: graceMs,
+      onResult: result => {
+        this.voicePending = false;
+        if (this.deadline === null) return;
+        if (result === 'ok') {
+          this.acknowledge('voice');
+        } else if (result === 'danger') {
+          this.endPrompt();
+          rideEvents.emit('emergency_requested', { triggerType: 'manual' });
+        }
+        // timeout: the tick raises the emergency at the deadline, so a tap still counts until then
+      },
+    });
+
+    rideEvents.emit('dead_mans_switch', { phase: 'prompt', deadline: this.deadline, timestamp: now });
+  }
+
+  private miss(now: number): void {
+    this.endPrompt();
+    this.resetClock();
+    rideEvents.emit('dead_mans_switch', { phase: 'missed', timestamp: now });
+    rideEvents.emit('emergency_requested', { triggerType: 'missed_check_in' });
+  }
+
+  private resetClock(): void {
+    this.nextPromptAt = this.source.now() + getDeadMansSwitchSettings().intervalMinutes * 60 * 1000;
+  }
+
+  private endPrompt(): void {
+    this.removeShakeListener?.();
+    this.removeShakeListener = null;
+    this.deadline = null;
+    if (this.voicePending) {
+      this.voicePending = false;
+      voiceConfirmation.stop();
+    }
+  }
+}
+
+export const deadMansSwitch = new DeadMansSwitch();
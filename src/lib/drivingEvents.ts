@@ -0,0 +1,118 @@
+// Harsh braking, harsh acceleration and sharp cornering detection
+// Longitudinal acceleration comes from the filtered GPS speed, lateral from
+// heading change x speed. The phone's own accelerometer must agree before
+// a GPS-only spike is reported, so a bad fix can't fake harsh driving.
+
+import type { FilteredFix } from './positionFilter';
+import type { FeatureSubscription, WindowFeatures } from './sensorHub';
+
+export type DrivingEventType = 'harsh_braking' | 'harsh_acceleration' | 'sharp_cornering';
+
+export interface DrivingEvent {
+  type: DrivingEventType;
+  severity: 'low' | 'medium' | 'high';
+  timestamp: number;
+  intensityG: number; // peak acceleration of the manoeuvre
+  speedKmh: number;
+}
+
+const GRAVITY = 9.81;
+
+// Grading thresholds in g: [low, medium, high]
+const BRAKING_G = [0.3, 0.45, 0.6];
+const ACCELERATION_G = [0.25, 0.35, 0.5];
+const CORNERING_G = [0.3, 0.45, 0.6];
+
+const MIN_FIX_GAP_MS = 500; // Shorter gaps amplify GPS noise
+const MAX_FIX_GAP_MS = 4000; // Longer gaps average the manoeuvre away
+const MIN_CORNERING_SPEED_KMH = 15; // Heading is unreliable when slow
+
+// Accelerometer corroboration
+const MOTION_WINDOW_MS = 2000;
+const MOTION_CONFIRM_G = 0.15; // Linear acceleration the phone must have felt
+const EVENT_COOLDOWN_MS = 5000; // One event per manoeuvre
+
+// Gravity-free acceleration peak over the corroboration window; without it we can't separate tilt from manoeuvre
+export const DRIVING_MOTION_FEATURES: FeatureSubscription = { channel: 'linear', windowMs: MOTION_WINDOW_MS };
+
+function grade(g: number, thresholds: number[]): DrivingEvent['severity'] | null {
+  if (g >= thresholds[2]) return 'high';
+  if (g >= thresholds[1]) return 'medium';
+  if (g >= thresholds[0]) return 'low';
+  return null;
+}
+
+function headingDelta(a: number, b: number): number {
+  const d = Math.abs(a - b) % 360;
+  return d > 180 ? 360 - d : d;
+}
+
+export class DrivingEventDetector {
+  private lastFix: FilteredFix | null = null;
+  private motion: { timestamp: number; peakG: number } | null = null;
+  private lastEventTime: Record<DrivingEventType, number> = {
+    harsh_braking: 0,
+    harsh_acceleration: 0,
+    sharp_cornering: 0,
+  };
+
+  constructor(private onEvent: (event: DrivingEvent) => void) {}
+
+  reset(): void {
+    this.lastFix = null;
+    this.motion = null;
+    this.lastEventTime = { harsh_braking: 0, harsh_acceleration: 0, sharp_cornering: 0 };
+  }
+
+  // DRIVING_MOTION_FEATURES from the sensor hub
+  updateMotion(features: WindowFeatures, timestamp: number): void {
+    this.motion = { timestamp, peakG: features.peak / GRAVITY };
+  }
+
+  addFix(fix: FilteredFix): void {
+    const prev = this.lastFix;
+    if (prev && fix.timestamp - prev.timestamp < MIN_FIX_GAP_MS) return;
+    this.lastFix = fix;
+    if (!prev || fix.timestamp - prev.timestamp > MAX_FIX_GAP_MS) return;
+
+    const dt = (fix.timestamp - prev.timestamp) / 1000;
+    const speed = fix.speedKmh / 3.6;
+
+    // Longitudinal: change in speed
+    const longitudinalG = (speed - prev.speedKmh / 3.6) / dt / GRAVITY;
+    if (longitudinalG < 0) {
+      this.report('harsh_braking', -longitudinalG, BRAKING_G, fix);
+    } else {
+      this.report('harsh_acceleration', longitudinalG, ACCELERATION_G, fix);
+    }
+
+    // Lateral: v x turn rate
+    if (
+      fix.heading !== null && prev.heading !== null &&
+      fix.speedKmh >= MIN_CORNERING_SPEED_KMH && prev.speedKmh >= MIN_CORNERING_SPEED_KMH
+    ) {
+      const turnRate = (headingDelta(fix.heading, prev.heading) * Math.PI / 180) / dt;
+      const avgSpeed = (speed + prev.speedKmh / 3.6) / 2;
+      this.report('sharp_cornering', (avgSpeed * turnRate) / GRAVITY, CORNERING_G, fix);
+    }
+  }
+
+  private report(type: DrivingEventType, g: number, thresholds: number[], fix: FilteredFix): void {
+    const severity = grade(g, thresholds);
+    if (!severity) return;
+    if (fix.timestamp - this.lastEventTime[type] < EVENT_COOLDOWN_MS) return;
+
+    // GPS says harsh - did the phone feel it? (no motion data = trust GPS)
+    const motion = this.motion && fix.timestamp - this.motion.timestamp <= MOTION_WINDOW_MS ? this.motion : null;
+    if (motion && motion.peakG < MOTION_CONFIRM_G) return;
+
+    this.lastEventTime[type] = fix.timestamp;
+    this.onEvent({
+      type,
+      severity,
+      timestamp: fix.timestamp,
+      intensityG: Math.round(g * 100) / 100,
+      speedKmh: Math.round(fix.speedKmh),
+    });
+  }
+}
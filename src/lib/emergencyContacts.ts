@@ -1,6 +1,7 @@
 // Emergency contacts management
 import { supabase } from '@/integrations/supabase/client';
 import { getDeviceId } from './deviceId';
+import { describeEmergencyLocation, type EmergencyLocation } from './offlineStorage';
 
 const CONTACTS_KEY = 'kavach_emergency_contacts';
 
@@ -188,12 +189,12 @@ export async function getPrimaryContact(): Promise<EmergencyContact | null> {
 
 // Notify emergency contacts (creates SMS-ready data)
 export async function notifyEmergencyContacts(
-  location?: { lat: number; lng: number }
+  location?: EmergencyLocation
 ): Promise<{ phone: string; message: string }[]> {
   const contacts = await getEmergencyContacts();
   
   const locationText = location 
-    ? `Location: https://maps.google.com/?q=${location.lat},${location.lng}`
+    ? `Location: https://maps.google.com/?q=${location.lat},${location.lng}\n${describeEmergencyLocation(location)}`
     : 'Location unavailable';
   
   const message = `🚨 EMERGENCY ALERT from KAVACH\n\nYour family member needs help!\n${locationText}\n\nThis is an automated alert.`;
@@ -0,0 +1,124 @@
+// Per-rider fatigue baseline
+// Jerky motion and weaving only mean fatigue relative to how this rider normally rides,
+// on this kind of road: a rough rural road shakes the phone far more than a smooth city
+// one. While the rider is fresh, the fatigue detector learns the normal spread of both
+// signals per road type; once calibrated it scores deviation from that instead of
+// population constants. Kept per vehicle, on the device only.
+
+import type { VehicleType } from './vehicleProfiles';
+
+const BASELINE_KEY = 'kavach_fatigue_baseline';
+
+export type RoadType = 'smooth' | 'mixed' | 'rough';
+
+export const ROAD_TYPES: RoadType[] = ['smooth', 'mixed', 'rough'];
+
+// Running mean and variance of a signal; an exact average at first, slowly forgetting once the weight is capped
+export interface RunningStat {
+  count: number;
+  mean: number;
+  variance: number;
+}
+
+export interface RoadBaseline {
+  accel: RunningStat; // accelerometer magnitude variance, 1 s windows
+  tilt: RunningStat; // tilt variance, 1 s windows
+}
+
+export interface FatigueBaseline {
+  vehicleType: VehicleType;
+  roads: Record<RoadType, RoadBaseline>;
+  rides: number; // rides that added samples
+  updatedAt: number;
+}
+
+export const CALIBRATION_SAMPLES = 20 * 60; // 20 minutes of fresh riding per road type, 1 per second
+const MAX_WEIGHT = 4 * 60 * 60; // After ~4 hours, keep adapting instead of freezing
+const MIN_ACCEL_STD = 0.2;
+const MIN_TILT_STD = 1;
+
+// Road type from the slow average of vibration, above what the vehicle itself produces
+const MIXED_ROAD_LEVEL = 1;
+const ROUGH_ROAD_LEVEL = 3;
+
+function emptyStat(): RunningStat {
+  return { count: 0, mean: 0, variance: 0 };
+}
+
+export function createFatigueBaseline(vehicleType: VehicleType): FatigueBaseline {
+  const roads = {} as Record<RoadType, RoadBaseline>;
+  ROAD_TYPES.forEach(type => {
+    roads[type] = { accel: emptyStat(), tilt: emptyStat() };
+  });
+  return { vehicleType, roads, rides: 0, updatedAt: 0 };
+}
+
+export function addSample(stat: RunningStat, value: number): void {
+  const alpha = 1 / Math.min(stat.count + 1, MAX_WEIGHT);
+  const delta = value - stat.mean;
+  stat.mean += alpha * delta;
+  stat.variance = (1 - alpha) * (stat.variance + alpha * delta * delta);
+  stat.count++;
+}
+
+function getStd(stat: RunningStat, min: number): number {
+  return Math.max(min, Math.sqrt(stat.variance));
+}
+
+export function classifyRoad(roadLevel: number, vibrationBaseline: number): RoadType {
+  const aboveVehicle = roadLevel - vibrationBaseline;
+  if (aboveVehicle >= ROUGH_ROAD_LEVEL) return 'rough';
+  if (aboveVehicle >= MIXED_ROAD_LEVEL) return 'mixed';
+  return 'smooth';
+}
+
+export function isCalibrated(road: RoadBaseline): boolean {
+  return road.accel.count >= CALIBRATION_SAMPLES;
+}
+
+// 0-1 of the way to a calibrated road type
+export function getCalibrationProgress(road: RoadBaseline): number {
+  return Math.min(1, road.accel.count / CALIBRATION_SAMPLES);
+}
+
+// How many standard deviations above this rider's normal, on this road type
+export function getDeviation(road: RoadBaseline, accelVariance: number, tiltVariance: number): { accel: number; tilt: number } {
+  return {
+    accel: (accelVariance - road.accel.mean) / getStd(road.accel, MIN_ACCEL_STD),
+    tilt: (tiltVariance - road.tilt.mean) / getStd(road.tilt, MIN_TILT_STD),
+  };
+}
+
+function getStoredBaselines(): Partial<Record<VehicleType, FatigueBaseline>> {
+  try {
+    const data = localStorage.getItem(BASELINE_KEY);
+    if (data) return JSON.parse(data);
+  } catch {
+    // Ignore parse errors
+  }
+  return {};
+}
+
+export function getFatigueBaseline(vehicleType: VehicleType): FatigueBaseline {
+  return getStoredBaselines()[vehicleType] ?? createFatigueBaseline(vehicleType);
+}
+
+export function saveFatigueBaseline(baseline: FatigueBaseline): void {
+  try {
+    const baselines = getStoredBaselines();
+    baselines[baseline.vehicleType] = baseline;
+    localStorage.setItem(BASELINE_KEY, JSON.stringify(baselines));
+  } catch (e) {
+    console.error('Failed to save fatigue baseline:', e);
+  }
+}
+
+export function resetFatigueBaseline(vehicleType: VehicleType): void {
+  try {
+    const baselines = getStoredBaselines();
+    delete baselines[vehicleType];
+    localStorage.setItem(BASELINE_KEY, JSON.stringify(baselines));
+  } catch (e) {
+    console.error('Failed to reset fatigue baseline:', e);
+  }
+}
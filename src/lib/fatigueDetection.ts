@@ -4,8 +4,24 @@
 
 import { speak, speakCustom, vibrateAlert } from './voiceOutput';
 import { getUserLanguage } from './deviceId';
+import { browserSensorSource, type SensorSource } from './sensorSource';
+import { getSensorHub, type FeatureSubscription, type WindowFeatures } from './sensorHub';
+import { getVehicleProfile, type VehicleProfile } from './vehicleProfiles';
+import { SAMPLING_TIERS, type SamplingTier } from './powerManager';
+import { EMPTY_SHIFT_CONTEXT, getCarriedRidingMs, getRestedRidingMs, getShiftCarryoverScore, type ShiftContext } from './shiftFatigue';
+import { addSample, classifyRoad, getDeviation, isCalibrated, type FatigueBaseline, type RoadType } from './fatigueBaseline';
+import { SteeringAnalyzer, STEERING_EVERY_MS, STEERING_WINDOW_MS, type SteeringState } from './steeringAnalysis';
+import {
+  addTimelinePoint,
+  createFatigueTimeline,
+  type FatigueComponents,
+  type FatigueNudgeReason,
+  type FatigueTimeline,
+} from './fatigueTimeline';
 
-interface FatigueState {
+export type FatigueLevel = 'none' | 'mild' | 'moderate' | 'severe';
+
+export interface FatigueState {
   isMonitoring: boolean;
   rideStartTime: number;
   timeOnRide: number; // minutes
@@ -15,14 +31,21 @@ interface FatigueState {
   gyroscopeStability: number;
   gpsVariance: number;
   ambientTemp: number | null;
+  roadType: RoadType; // from the slow average of vibration
+  usingBaseline: boolean; // scored against the rider's own normal for this road type
   
   // Fatigue indicators
   fatigueScore: number; // 0-100, higher = more fatigue
   panicScore: number; // 0-100, higher = more panic risk
+  peakFatigueScore: number; // highest this ride
+  steering: SteeringState; // drowsy weaving and micro-sleep, from roll and lateral spectra
+  steeringScore: number; // 0-25, steering's part of fatigueScore
+  components: FatigueComponents; // what makes up fatigueScore
+  shiftRidingMinutes: number; // this ride plus what earlier rides this shift still count for, less rest taken
+  restTakenMs: number; // stationary in stops of a minute or more this ride
+  heatExposureMs: number; // time riding above the heat threshold
   
   // History for pattern detection
-  recentAccelData: number[];
-  recentGyroData: number[];
   recentSpeedData: number[];
   lastNudgeTime: number;
 }
@@ -82,7 +105,32 @@ const fatigueNudges: Record<string, Record<string, string[]>> = {
   },
 };
 
-class FatigueDetector {
+// ~60 samples of a typical 60 Hz sensor, refreshed once a second
+const ACCEL_FEATURES: FeatureSubscription = { channel: 'magnitude', windowMs: 1000, everyMs: 1000 };
+const TILT_FEATURES: FeatureSubscription = { channel: 'tilt', windowMs: 1000, everyMs: 1000 };
+const ROLL_FEATURES: FeatureSubscription = { channel: 'roll', windowMs: 1000, everyMs: 1000 };
+const STEERING_FEATURES: FeatureSubscription = { channel: 'roll', windowMs: STEERING_WINDOW_MS, everyMs: STEERING_EVERY_MS };
+const MICRO_SLEEP_RECENT_MS = 10 * 60 * 1000;
+const MICRO_SLEEP_NUDGE_GAP_MS = 60 * 1000; // Micro-sleep nudges skip the usual 5 minute gap
+const MIN_FEATURE_SAMPLES = 10;
+
+// Baseline learning: only from a fresh rider on the move
+const ROAD_LEVEL_SAMPLES = 120; // ~2 minutes of vibration sets the road type
+const LEARN_MIN_SPEED_KMH = 10;
+const LEARN_MAX_RIDE_MINUTES = 45;
+const LEARN_MAX_SHIFT_MINUTES = 90;
+
+// Speak a nudge in the rider's language
+export function announceFatigueNudge(level: Exclude<FatigueLevel, 'none'>, vibrate: boolean): void {
+  const lang = getUserLanguage();
+  const langKey = fatigueNudges[lang] ? lang : 'en-IN';
+  const nudges = fatigueNudges[langKey][level];
+  const nudge = nudges[Math.floor(Math.random() * nudges.length)];
+  speakCustom(nudge);
+  if (vibrate) vibrateAlert();
+}
+
+export class FatigueDetector {
   private state: FatigueState = {
     isMonitoring: false,
     rideStartTime: 0,
@@ -91,17 +139,38 @@ class FatigueDetector {
     gyroscopeStability: 100,
     gpsVariance: 0,
     ambientTemp: null,
+    roadType: 'smooth',
+    usingBaseline: false,
     fatigueScore: 0,
     panicScore: 0,
-    recentAccelData: [],
-    recentGyroData: [],
+    peakFatigueScore: 0,
+    steering: { weavingScore: 0, weavingFrequencyHz: null, microSleepEvents: 0, lastMicroSleepAt: null },
+    steeringScore: 0,
+    components: { time: 0, accel: 0, gyro: 0, heat: 0, shift: 0, steering: 0 },
+    shiftRidingMinutes: 0,
+    restTakenMs: 0,
+    heatExposureMs: 0,
     recentSpeedData: [],
     lastNudgeTime: 0,
   };
   
-  private motionHandler: ((e: DeviceMotionEvent) => void) | null = null;
-  private orientationHandler: ((e: DeviceOrientationEvent) => void) | null = null;
+  private removeMotionListener: (() => void) | null = null;
+  private removeOrientationListener: (() => void) | null = null;
+  private removeSteeringListeners: (() => void)[] = [];
+  private steering = new SteeringAnalyzer(this.handleMicroSleep.bind(this));
   private checkInterval: number | null = null;
+  private onFatigueUpdate: ((state: FatigueState) => void) | null = null;
+  private onNudge: ((level: Exclude<FatigueLevel, 'none'>, vibrate: boolean) => void) | null = null;
+  private profile: VehicleProfile = getVehicleProfile();
+  private activeRidingMs: number | null = null; // null = no segment data, use wall time
+  private samplingTier: SamplingTier = 'full';
+  private shift: ShiftContext = EMPTY_SHIFT_CONTEXT; // Earlier rides this shift
+  private lastScoreUpdate = 0;
+  private baseline: FatigueBaseline | null = null; // This rider's normal, updated while fresh
+  private learnedThisRide = false;
+  private tiltVariance = 0;
+  private roadLevel: number | null = null;
+  private timeline: FatigueTimeline = createFatigueTimeline(0); // Scores through the ride, and each nudge
   
   // Thresholds
   private readonly FATIGUE_NUDGE_INTERVAL = 5 * 60 * 1000; // 5 min between nudges
@@ -110,110 +179,217 @@ class FatigueDetector {
   private readonly SEVERE_FATIGUE_THRESHOLD = 70;
   private readonly PANIC_THRESHOLD = 60;
   
+  // muted: skip voice and vibration (used when replaying recorded rides, and inside the sensor worker)
+  constructor(
+    private source: SensorSource = browserSensorSource,
+    private muted = false
+  ) {}
+  
+  // Swap the sensor source (e.g. to record a trace). Only between rides.
+  setSensorSource(source: SensorSource): void {
+    if (this.state.isMonitoring) return;
+    this.source = source;
+  }
+  
+  // Per-vehicle fatigue onset and vibration baseline
+  setVehicleProfile(profile: VehicleProfile): void {
+    this.profile = profile;
+  }
+  
+  // Riding, breaks, heat and fatigue peaks from earlier rides this shift. Set before starting.
+  setShiftContext(context: ShiftContext): void {
+    this.shift = context;
+  }
+  
+  // The rider's stored baseline for this vehicle. Set before starting; read back with getBaseline().
+  setFatigueBaseline(baseline: FatigueBaseline): void {
+    this.baseline = JSON.parse(JSON.stringify(baseline));
+  }
+  
+  getBaseline(): FatigueBaseline | null {
+    return this.baseline;
+  }
+  
+  // Called after every periodic score update
+  setFatigueUpdateHandler(handler: (state: FatigueState) => void): void {
+    this.onFatigueUpdate = handler;
+  }
+  
+  // Muted detectors only: called where the detector would have spoken a nudge
+  setNudgeHandler(handler: (level: Exclude<FatigueLevel, 'none'>, vibrate: boolean) => void): void {
+    this.onNudge = handler;
+  }
+  
   startMonitoring(): void {
     if (this.state.isMonitoring) return;
     
     this.state = {
       ...this.state,
       isMonitoring: true,
-      rideStartTime: Date.now(),
+      rideStartTime: this.source.now(),
       timeOnRide: 0,
       fatigueScore: 0,
       panicScore: 0,
-      recentAccelData: [],
-      recentGyroData: [],
+      peakFatigueScore: 0,
+      shiftRidingMinutes: getCarriedRidingMs(this.shift) / 60000,
+      restTakenMs: 0,
+      heatExposureMs: 0,
       recentSpeedData: [],
       lastNudgeTime: 0,
     };
+    this.activeRidingMs = null;
+    this.lastScoreUpdate = this.source.now();
+    this.learnedThisRide = false;
+    this.tiltVariance = 0;
+    this.roadLevel = null;
+    this.steering.reset();
+    this.timeline = createFatigueTimeline(this.state.rideStartTime);
+    this.samplingTier = 'full';
     
-    // Start accelerometer monitoring
-    if ('DeviceMotionEvent' in window) {
-      this.motionHandler = this.handleMotion.bind(this);
-      window.addEventListener('devicemotion', this.motionHandler);
-    }
-    
-    // Start gyroscope monitoring
-    if ('DeviceOrientationEvent' in window) {
-      this.orientationHandler = this.handleOrientation.bind(this);
-      window.addEventListener('deviceorientation', this.orientationHandler);
-    }
+    this.startSensors();
     
     // Periodic fatigue check
-    this.checkInterval = window.setInterval(() => {
+    this.checkInterval = this.source.setInterval(() => {
       this.updateFatigueScore();
+      this.recordTimelinePoint();
       this.checkAndNudge();
+      this.onFatigueUpdate?.({ ...this.state });
     }, 30000); // Every 30 seconds
   }
   
   stopMonitoring(): FatigueState {
     const finalState = { ...this.state };
     
-    if (this.motionHandler) {
-      window.removeEventListener('devicemotion', this.motionHandler);
-      this.motionHandler = null;
-    }
-    
-    if (this.orientationHandler) {
-      window.removeEventListener('deviceorientation', this.orientationHandler);
-      this.orientationHandler = null;
-    }
+    this.stopSensors();
     
     if (this.checkInterval) {
-      clearInterval(this.checkInterval);
+      this.source.clearInterval(this.checkInterval);
       this.checkInterval = null;
     }
     
+    if (this.baseline && this.learnedThisRide) {
+      this.baseline.rides++;
+      this.baseline.updatedAt = this.source.now();
+    }
+    
     this.state.isMonitoring = false;
     return finalState;
   }
   
-  private handleMotion(event: DeviceMotionEvent): void {
-    const acc = event.accelerationIncludingGravity;
-    if (!acc || acc.x === null) return;
-    
-    // Calculate acceleration magnitude
-    const magnitude = Math.sqrt(
-      (acc.x || 0) ** 2 + 
-      (acc.y || 0) ** 2 + 
-      (acc.z || 0) ** 2
-    );
+  // Battery saving tiers pause the motion sensors; time, GPS and heat still count
+  setSamplingTier(tier: SamplingTier): void {
+    if (tier === this.samplingTier) return;
+    this.samplingTier = tier;
+    if (!this.state.isMonitoring) return;
     
-    // Store recent data (keep last 60 samples ~1 minute at 1Hz effective)
-    this.state.recentAccelData.push(magnitude);
-    if (this.state.recentAccelData.length > 60) {
-      this.state.recentAccelData.shift();
-    }
-    
-    // Calculate variance (high variance = jerky/erratic = possibly fatigued)
-    if (this.state.recentAccelData.length >= 10) {
-      const mean = this.state.recentAccelData.reduce((a, b) => a + b, 0) / this.state.recentAccelData.length;
-      const variance = this.state.recentAccelData.reduce((sum, val) => 
-        sum + Math.pow(val - mean, 2), 0) / this.state.recentAccelData.length;
-      this.state.accelerometerVariance = Math.min(10, variance);
+    if (SAMPLING_TIERS[tier].fatigueSensors) {
+      this.startSensors();
+    } else {
+      this.stopSensors();
     }
   }
   
-  private handleOrientation(event: DeviceOrientationEvent): void {
-    // Track gyro stability (unstable = weaving/erratic steering)
-    const beta = event.beta || 0;
-    const gamma = event.gamma || 0;
+  private startSensors(): void {
+    if (this.removeMotionListener || !SAMPLING_TIERS[this.samplingTier].fatigueSensors) return;
+    
+    const hub = getSensorHub(this.source);
     
-    const combined = Math.abs(beta) + Math.abs(gamma);
-    this.state.recentGyroData.push(combined);
+    // Start accelerometer monitoring
+    this.removeMotionListener = hub.subscribe(ACCEL_FEATURES, this.handleMotion.bind(this));
+    
+    // Start gyroscope monitoring
+    this.removeOrientationListener = hub.subscribe(TILT_FEATURES, this.handleOrientation.bind(this));
+    
+    // Weaving and micro-sleep: lean second by second, and spectra of lean and sideways acceleration
+    this.removeSteeringListeners = [
+      hub.subscribe(ROLL_FEATURES, (features, timestamp) => {
+        if (features.count >= MIN_FEATURE_SAMPLES) {
+          this.steering.addRollSecond(features.mean, features.std, timestamp, this.getCurrentSpeed());
+        }
+      }),
+      hub.subscribe(STEERING_FEATURES, () => {
+        this.steering.analyzeWindow(
+          hub.getWindow('roll', STEERING_WINDOW_MS),
+          hub.getWindow('lateral', STEERING_WINDOW_MS),
+          this.getCurrentSpeed()
+        );
+      }),
+    ];
+  }
+  
+  private stopSensors(): void {
+    if (this.removeMotionListener) {
+      this.removeMotionListener();
+      this.removeMotionListener = null;
+    }
     
-    if (this.state.recentGyroData.length > 60) {
-      this.state.recentGyroData.shift();
+    if (this.removeOrientationListener) {
+      this.removeOrientationListener();
+      this.removeOrientationListener = null;
     }
     
-    if (this.state.recentGyroData.length >= 10) {
-      const mean = this.state.recentGyroData.reduce((a, b) => a + b, 0) / this.state.recentGyroData.length;
-      const variance = this.state.recentGyroData.reduce((sum, val) => 
-        sum + Math.pow(val - mean, 2), 0) / this.state.recentGyroData.length;
+    this.removeSteeringListeners.forEach(remove => remove());
+    this.removeSteeringListeners = [];
+  }
+  
+  private handleMotion(features: WindowFeatures): void {
+    // Variance of acceleration magnitude (high variance = jerky/erratic = possibly fatigued)
+    if (features.count >= MIN_FEATURE_SAMPLES) {
+      this.state.accelerometerVariance = Math.min(10, features.variance);
+      if (this.isMoving()) this.updateRoadType();
+      this.learnBaseline();
+    }
+  }
+  
+  private handleOrientation(features: WindowFeatures): void {
+    // Track gyro stability (unstable = weaving/erratic steering)
+    if (features.count >= MIN_FEATURE_SAMPLES) {
       // Stability decreases with variance
-      this.state.gyroscopeStability = Math.max(0, 100 - variance);
+      this.state.gyroscopeStability = Math.max(0, 100 - features.variance);
+      this.tiltVariance = features.variance;
     }
   }
   
+  private getCurrentSpeed(): number {
+    const speeds = this.state.recentSpeedData;
+    return speeds.length > 0 ? speeds[speeds.length - 1] : 0;
+  }
+  
+  private isMoving(): boolean {
+    return this.getCurrentSpeed() >= LEARN_MIN_SPEED_KMH;
+  }
+  
+  // Asleep for a moment: don't wait for the next periodic check
+  private handleMicroSleep(timestamp: number): void {
+    this.updateFatigueScore();
+    this.onFatigueUpdate?.({ ...this.state });
+    if (timestamp - this.state.lastNudgeTime >= MICRO_SLEEP_NUDGE_GAP_MS) {
+      this.deliverNudge('severe', timestamp, true, 'micro_sleep');
+    }
+  }
+  
+  // Sustained vibration is the road; short bursts on top of it are the rider
+  private updateRoadType(): void {
+    const variance = this.state.accelerometerVariance;
+    this.roadLevel = this.roadLevel === null
+      ? variance
+      : this.roadLevel + (variance - this.roadLevel) / ROAD_LEVEL_SAMPLES;
+    this.state.roadType = classifyRoad(this.roadLevel, this.profile.vibrationBaseline);
+  }
+  
+  // Only a fresh rider's riding defines "normal" - never learn fatigue as the baseline
+  private learnBaseline(): void {
+    if (!this.baseline || !this.isMoving()) return;
+    if (this.state.timeOnRide >= LEARN_MAX_RIDE_MINUTES) return;
+    if (this.state.shiftRidingMinutes >= LEARN_MAX_SHIFT_MINUTES) return;
+    if (this.state.fatigueScore >= this.MILD_FATIGUE_THRESHOLD) return;
+    
+    const road = this.baseline.roads[this.state.roadType];
+    addSample(road.accel, this.state.accelerometerVariance);
+    addSample(road.tilt, this.tiltVariance);
+    this.learnedThisRide = true;
+  }
+  
   updateGPSData(speed: number): void {
     this.state.recentSpeedData.push(speed);
     if (this.state.recentSpeedData.length > 30) {
@@ -229,6 +405,16 @@ class FatigueDetector {
     }
   }
   
+  // Riding time excluding stops - delivery stops are rest, not time on the bike
+  updateActiveRidingTime(ms: number): void {
+    this.activeRidingMs = ms;
+  }
+  
+  // Rest actually taken this ride - each minute off the bike takes back half a minute of riding
+  updateRestTime(ms: number): void {
+    this.state.restTakenMs = ms;
+  }
+  
   updateTemperature(temp: number, humidity?: number): void {
     // Use feels-like temperature if humidity is provided
     if (humidity !== undefined && temp >= 27) {
@@ -256,31 +442,71 @@ class FatigueDetector {
   }
   
   private updateFatigueScore(): void {
-    this.state.timeOnRide = (Date.now() - this.state.rideStartTime) / 60000; // minutes
+    const now = this.source.now();
+    const rideMs = this.activeRidingMs ?? (now - this.state.rideStartTime);
+    this.state.timeOnRide = rideMs / 60000; // minutes
+    this.state.shiftRidingMinutes = getRestedRidingMs(getCarriedRidingMs(this.shift) + rideMs, this.state.restTakenMs) / 60000;
+    
+    if (this.state.ambientTemp !== null && this.state.ambientTemp > 35) {
+      this.state.heatExposureMs += now - this.lastScoreUpdate;
+    }
+    this.lastScoreUpdate = now;
     
     // Fatigue factors:
-    // 1. Time on ride (exponential after 90 min)
-    const timeScore = this.state.timeOnRide > 90 
-      ? Math.min(40, (this.state.timeOnRide - 90) / 2)
-      : this.state.timeOnRide > 60 
+    // 1. Time on the bike this shift, less rest taken (exponential after the vehicle's fatigue onset, 90 min on a scooter)
+    const onset = this.profile.fatigueOnsetMinutes;
+    const minutes = this.state.shiftRidingMinutes;
+    const timeScore = minutes > onset 
+      ? Math.min(40, (minutes - onset) / 2)
+      : minutes > onset * 2 / 3 
         ? 15 
-        : this.state.timeOnRide / 6;
-    
-    // 2. Acceleration variance (jerky movements)
-    const accelScore = Math.min(25, this.state.accelerometerVariance * 3);
+        : minutes / 6;
     
-    // 3. Gyro instability (weaving)
-    const gyroScore = Math.min(20, (100 - this.state.gyroscopeStability) / 5);
+    // 2. Acceleration variance (jerky movements) and 3. gyro instability (weaving):
+    // against the rider's own normal on this road type once calibrated, population constants until then
+    const road = this.baseline?.roads[this.state.roadType];
+    this.state.usingBaseline = !!road && isCalibrated(road);
+    let accelScore: number;
+    let gyroScore: number;
+    if (road && this.state.usingBaseline) {
+      // Within a standard deviation of normal scores nothing
+      const deviation = getDeviation(road, this.state.accelerometerVariance, this.tiltVariance);
+      accelScore = Math.min(25, Math.max(0, deviation.accel - 1) * 8);
+      gyroScore = Math.min(20, Math.max(0, deviation.tilt - 1) * 6);
+    } else {
+      // Above what the vehicle itself produces
+      accelScore = Math.min(25, Math.max(0, this.state.accelerometerVariance - this.profile.vibrationBaseline) * 3);
+      gyroScore = Math.min(20, (100 - this.state.gyroscopeStability) / 5);
+    }
     
     // 4. Heat exposure
     const heatScore = this.state.ambientTemp && this.state.ambientTemp > 35 
       ? Math.min(15, (this.state.ambientTemp - 35) * 3) 
       : 0;
     
+    // 5. Carry-over: fatigue peaks and heat earlier in the shift, days without a rest day
+    const shiftScore = getShiftCarryoverScore(this.shift);
+    
+    // 6. Steering: slow drowsy weaving, and micro-sleeps in the last 10 minutes
+    const steering = this.steering.getState();
+    const recentMicroSleep = steering.lastMicroSleepAt !== null && now - steering.lastMicroSleepAt < MICRO_SLEEP_RECENT_MS;
+    const microSleepScore = recentMicroSleep ? Math.min(15, 10 + 5 * (steering.microSleepEvents - 1)) : 0;
+    this.state.steering = steering;
+    this.state.steeringScore = Math.min(25, Math.round(steering.weavingScore * 0.15) + microSleepScore);
+    
     // Combined fatigue score
+    this.state.components = {
+      time: timeScore,
+      accel: accelScore,
+      gyro: gyroScore,
+      heat: heatScore,
+      shift: shiftScore,
+      steering: this.state.steeringScore,
+    };
     this.state.fatigueScore = Math.min(100, Math.round(
-      timeScore + accelScore + gyroScore + heatScore
+      timeScore + accelScore + gyroScore + heatScore + shiftScore + this.state.steeringScore
     ));
+    this.state.peakFatigueScore = Math.max(this.state.peakFatigueScore, this.state.fatigueScore);
     
     // Panic score (based on sudden erratic behavior)
     const suddenAccelSpike = this.state.accelerometerVariance > 5;
@@ -296,53 +522,79 @@ class FatigueDetector {
     this.state.panicScore = Math.min(100, panicScore);
   }
   
+  private recordTimelinePoint(): void {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const { components } = this.state;
+    addTimelinePoint(this.timeline, {
+      t: this.source.now() - this.state.rideStartTime,
+      fatigue: this.state.fatigueScore,
+      panic: this.state.panicScore,
+      time: round(components.time),
+      accel: round(components.accel),
+      gyro: round(components.gyro),
+      heat: round(components.heat),
+      shift: round(components.shift),
+      steering: round(components.steering),
+    });
+  }
+  
   private checkAndNudge(): void {
-    const now = Date.now();
+    const now = this.source.now();
     
     // Respect nudge interval
     if (now - this.state.lastNudgeTime < this.FATIGUE_NUDGE_INTERVAL) {
       return;
     }
     
-    const lang = getUserLanguage();
-    const langKey = fatigueNudges[lang] ? lang : 'en-IN';
-    
     // Check panic first (higher priority)
     if (this.state.panicScore >= this.PANIC_THRESHOLD) {
-      const nudges = fatigueNudges[langKey].severe;
-      const nudge = nudges[Math.floor(Math.random() * nudges.length)];
-      speakCustom(nudge);
-      vibrateAlert();
-      this.state.lastNudgeTime = now;
+      this.deliverNudge('severe', now, true, 'panic');
       return;
     }
     
     // Check fatigue levels
     if (this.state.fatigueScore >= this.SEVERE_FATIGUE_THRESHOLD) {
-      const nudges = fatigueNudges[langKey].severe;
-      const nudge = nudges[Math.floor(Math.random() * nudges.length)];
-      speakCustom(nudge);
-      vibrateAlert();
-      this.state.lastNudgeTime = now;
+      this.deliverNudge('severe', now, true);
     } else if (this.state.fatigueScore >= this.MODERATE_FATIGUE_THRESHOLD) {
-      const nudges = fatigueNudges[langKey].moderate;
-      const nudge = nudges[Math.floor(Math.random() * nudges.length)];
-      speakCustom(nudge);
-      vibrateAlert();
-      this.state.lastNudgeTime = now;
+      this.deliverNudge('moderate', now, true);
     } else if (this.state.fatigueScore >= this.MILD_FATIGUE_THRESHOLD) {
-      const nudges = fatigueNudges[langKey].mild;
-      const nudge = nudges[Math.floor(Math.random() * nudges.length)];
-      speakCustom(nudge);
-      this.state.lastNudgeTime = now;
+      this.deliverNudge('mild', now, false);
+    }
+  }
+  
+  private deliverNudge(
+    level: 'mild' | 'moderate' | 'severe',
+    now: number,
+    vibrate: boolean,
+    reason: FatigueNudgeReason = 'fatigue'
+  ): void {
+    this.state.lastNudgeTime = now;
+    this.timeline.nudges.push({
+      t: now - this.state.rideStartTime,
+      level,
+      reason,
+      fatigue: this.state.fatigueScore,
+      panic: this.state.panicScore,
+      components: { ...this.state.components },
+      stoppedAfter: null,
+    });
+    if (this.muted) {
+      this.onNudge?.(level, vibrate);
+      return;
     }
+    announceFatigueNudge(level, vibrate);
   }
   
   getState(): FatigueState {
     return { ...this.state };
   }
   
-  getFatigueLevel(): 'none' | 'mild' | 'moderate' | 'severe' {
+  // Scores and nudges so far this ride (the last ride once stopped)
+  getTimeline(): FatigueTimeline {
+    return { ...this.timeline, points: [...this.timeline.points], nudges: [...this.timeline.nudges] };
+  }
+  
+  getFatigueLevel(): FatigueLevel {
     if (this.state.fatigueScore >= this.SEVERE_FATIGUE_THRESHOLD) return 'severe';
     if (this.state.fatigueScore >= this.MODERATE_FATIGUE_THRESHOLD) return 'moderate';
     if (this.state.fatigueScore >= this.MILD_FATIGUE_THRESHOLD) return 'mild';
@@ -354,11 +606,17 @@ class FatigueDetector {
     accelerationVariance: number;
     timeOnRide: number;
     fatigueScore: number;
+    peakFatigueScore: number;
+    heatExposureMinutes: number;
+    microSleepEvents: number;
   } {
     return {
       accelerationVariance: this.state.accelerometerVariance,
       timeOnRide: this.state.timeOnRide,
       fatigueScore: this.state.fatigueScore,
+      peakFatigueScore: this.state.peakFatigueScore,
+      heatExposureMinutes: this.state.heatExposureMs / 60000,
+      microSleepEvents: this.state.steering.microSleepEvents,
     };
   }
   
@@ -384,5 +642,3 @@ class FatigueDetector {
     this.state.panicScore = 0;
   }
 }
-
-export const fatigueDetector = new FatigueDetector();
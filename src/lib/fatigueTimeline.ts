@@ -0,0 +1,93 @@
+// Fatigue timeline - why the app told the rider to slow down or stop
+// The fatigue detector samples its scores and their components every check, and logs
+// each nudge with the scores behind it. At the end of the ride the nudges are matched
+// against the ride's stops, so Ride History can show whether the rider actually rested
+// as long as the nudge asked.
+// Worker-safe: no storage here, the timeline travels back in the ride result.
+
+import type { FatigueLevel } from './fatigueDetection';
+import type { RideSegment } from './rideSegments';
+import { findBreakAfter, SUGGESTED_REST_MS } from './restCompliance';
+
+// Points each factor added to the fatigue score
+export interface FatigueComponents {
+  time: number; // time on the bike this shift
+  accel: number; // jerky motion
+  gyro: number; // unstable lean
+  heat: number;
+  shift: number; // carry-over from earlier rides and days
+  steering: number; // drowsy weaving and micro-sleeps
+}
+
+export interface FatigueTimelinePoint extends FatigueComponents {
+  t: number; // ms since the ride started
+  fatigue: number;
+  panic: number;
+}
+
+export type FatigueNudgeReason = 'fatigue' | 'panic' | 'micro_sleep';
+
+export interface FatigueNudge {
+  t: number; // ms since the ride started
+  level: Exclude<FatigueLevel, 'none'>;
+  reason: FatigueNudgeReason;
+  fatigue: number;
+  panic: number;
+  components: FatigueComponents;
+  stoppedAfter: boolean | null; // null until matched against the ride's stops
+  restMs?: number | null; // rest taken after the nudge, null if the rider kept riding
+  rideEnded?: boolean; // stopped by ending the ride rather than taking a break
+}
+
+export interface FatigueTimeline {
+  startedAt: number;
+  points: FatigueTimelinePoint[];
+  nudges: FatigueNudge[];
+}
+
+export const FATIGUE_COMPONENT_LABELS: Record<keyof FatigueComponents, string> = {
+  time: 'Time on bike',
+  accel: 'Jerky riding',
+  gyro: 'Unsteady lean',
+  heat: 'Heat',
+  shift: 'Earlier rides',
+  steering: 'Weaving',
+};
+
+export const NUDGE_LABELS: Record<FatigueNudge['level'], string> = {
+  mild: 'Slow down',
+  moderate: 'Take a break',
+  severe: 'Stop now',
+};
+
+const MAX_POINTS = 720; // 6 hours at one point per 30 s check; longer rides are thinned
+
+export function createFatigueTimeline(startedAt: number): FatigueTimeline {
+  return { startedAt, points: [], nudges: [] };
+}
+
+export function addTimelinePoint(timeline: FatigueTimeline, point: FatigueTimelinePoint): void {
+  timeline.points.push(point);
+  if (timeline.points.length > MAX_POINTS) {
+    // Halve the resolution rather than drop the start of the ride
+    timeline.points = timeline.points.filter((_, i) => i % 2 === 0);
+  }
+}
+
+// Did the rider rest as long as each nudge asked? Ending the ride soon after counts too.
+export function markNudgeOutcomes(timeline: FatigueTimeline, segments: RideSegment[], endTime: number): FatigueTimeline {
+  const nudges = timeline.nudges.map(nudge => {
+    const rest = findBreakAfter(timeline.startedAt + nudge.t, SUGGESTED_REST_MS[nudge.level], segments, endTime);
+    return { ...nudge, stoppedAfter: rest !== null, restMs: rest?.restMs ?? null, rideEnded: rest?.rideEnded ?? false };
+  });
+  return { ...timeline, nudges };
+}
+
+// The factors behind a nudge, biggest first
+export function explainNudge(nudge: FatigueNudge, limit = 3): { label: string; points: number }[] {
+  return (Object.keys(FATIGUE_COMPONENT_LABELS) as (keyof FatigueComponents)[])
+    .map(key => ({ label: FATIGUE_COMPONENT_LABELS[key], points: Math.round(nudge.components[key]) }))
+    .filter(c => c.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit);
+}
@@ -0,0 +1,152 @@
+// GPS health and dead reckoning
+// Tunnels, flyovers and basement parking drop the fix. Rather than keep serving a stale
+// position as if it were current, track how healthy the signal is and, while it's gone,
+// carry the last heading and speed forward - stopping when the motion sensors say the
+// rider has stopped - with an uncertainty radius that grows the longer we guess.
+
+import { STATIONARY_SPEED_KMH, type FilteredFix } from './positionFilter';
+
+export type GpsHealth = 'good' | 'degraded' | 'lost';
+
+export interface LocationEstimate {
+  lat: number;
+  lng: number;
+  source: 'gps' | 'dead_reckoning';
+  fixTimestamp: number; // time of the last real GPS fix
+  uncertaintyM: number; // radius the rider is probably within
+  health: GpsHealth;
+}
+
+const DEGRADED_ACCURACY_M = 20; // Accepted, but only just
+const LOST_AFTER_MIN_MS = 30 * 1000; // No fix for this long (or twice the stale window) = lost
+const MAX_RECKONING_MS = 2 * 60 * 1000; // Past this the heading guess is worthless; only widen the radius
+const HEADING_DRIFT = 0.3; // Uncertainty per metre reckoned (heading and speed error)
+const SPEED_ERROR_MPS = 1; // Unknown speed changes, per second reckoned
+const EARTH_RADIUS_M = 6371000;
+
+// Move a point along a bearing
+function project(lat: number, lng: number, bearingDeg: number, distanceM: number): { lat: number; lng: number } {
+  const bearing = bearingDeg * Math.PI / 180;
+  const dLat = distanceM * Math.cos(bearing) / EARTH_RADIUS_M;
+  const dLng = distanceM * Math.sin(bearing) / (EARTH_RADIUS_M * Math.cos(lat * Math.PI / 180));
+  return {
+    lat: lat + dLat * 180 / Math.PI,
+    lng: lng + dLng * 180 / Math.PI,
+  };
+}
+
+export class GpsHealthTracker {
+  private lastFix: FilteredFix | null = null;
+  private lastRejectedAt = 0;
+  private permissionDenied = false;
+
+  // Dead-reckoned state, advanced on each motion update while the fix is stale
+  private heading: number | null = null; // last heading seen while moving
+  private speedMps = 0;
+  private position: { lat: number; lng: number } | null = null;
+  private uncertaintyM = 0;
+  private lastStep = 0;
+
+  reset(): void {
+    this.lastFix = null;
+    this.lastRejectedAt = 0;
+    this.permissionDenied = false;
+    this.heading = null;
+    this.speedMps = 0;
+    this.position = null;
+    this.uncertaintyM = 0;
+    this.lastStep = 0;
+  }
+
+  addFix(fix: FilteredFix): void {
+    this.lastFix = fix;
+    this.permissionDenied = false;
+
+    const moving = fix.speedKmh >= STATIONARY_SPEED_KMH;
+    if (moving && fix.heading !== null) this.heading = fix.heading;
+    this.speedMps = moving ? fix.speedKmh / 3.6 : 0;
+
+    this.position = { lat: fix.lat, lng: fix.lng };
+    this.uncertaintyM = fix.accuracy;
+    this.lastStep = fix.timestamp;
+  }
+
+  // A raw fix the position filter threw out (too inaccurate, or a jump)
+  addRejectedFix(timestamp: number): void {
+    this.lastRejectedAt = timestamp;
+  }
+
+  addError(code: number): void {
+    if (code === 1) this.permissionDenied = true; // PERMISSION_DENIED
+  }
+
+  // Motion-sensor evidence of riding vs. standing still, about once a second.
+  // staleAfterMs: how long without a fix before we start reckoning.
+  addMotion(moving: boolean, timestamp: number, staleAfterMs: number): void {
+    if (!this.lastFix || !this.position) return;
+
+    if (timestamp - this.lastFix.timestamp <= staleAfterMs) {
+      this.lastStep = timestamp;
+      return;
+    }
+
+    const dt = Math.max(0, timestamp - this.lastStep) / 1000;
+    this.lastStep = timestamp;
+    if (!moving) {
+      // Stopped in the tunnel - wherever we are, we're not going anywhere
+      this.speedMps = 0;
+      return;
+    }
+
+    const distance = this.speedMps * dt;
+    const reckoning = timestamp - this.lastFix.timestamp <= MAX_RECKONING_MS;
+    if (reckoning && this.heading !== null && distance > 0) {
+      this.position = project(this.position.lat, this.position.lng, this.heading, distance);
+      this.uncertaintyM += distance * HEADING_DRIFT + SPEED_ERROR_MPS * dt;
+    } else {
+      // Moving in an unknown direction
+      this.uncertaintyM += distance + SPEED_ERROR_MPS * dt;
+    }
+  }
+
+  getHealth(now: number, staleAfterMs: number): GpsHealth {
+    if (!this.lastFix || this.permissionDenied) return 'lost';
+
+    const age = now - this.lastFix.timestamp;
+    if (age > Math.max(LOST_AFTER_MIN_MS, staleAfterMs * 2)) return 'lost';
+    if (age > staleAfterMs || this.lastFix.accuracy > DEGRADED_ACCURACY_M || this.lastRejectedAt > this.lastFix.timestamp) {
+      return 'degraded';
+    }
+    return 'good';
+  }
+
+  getEstimate(now: number, staleAfterMs: number): LocationEstimate | null {
+    if (!this.lastFix || !this.position) return null;
+
+    const health = this.getHealth(now, staleAfterMs);
+    const reckoned = this.position.lat !== this.lastFix.lat || this.position.lng !== this.lastFix.lng;
+
+    // Time since the last motion step is unaccounted for - assume the worst about it
+    const pendingS = Math.max(0, now - this.lastStep) / 1000;
+    const stale = now - this.lastFix.timestamp > staleAfterMs;
+    const pendingM = stale ? pendingS * (this.speedMps + SPEED_ERROR_MPS) : 0;
+
+    return {
+      lat: this.position.lat,
+      lng: this.position.lng,
+      source: reckoned ? 'dead_reckoning' : 'gps',
+      fixTimestamp: this.lastFix.timestamp,
+      uncertaintyM: Math.round(this.uncertaintyM + pendingM),
+      health,
+    };
+  }
+}
+
+// "2 min ago", for the rider and for emergency contacts
+export function formatLocationAge(ageMs: number): string {
+  const seconds = Math.max(0, Math.round(ageMs / 1000));
+  if (seconds < 60) return `${seconds} s ago`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min ago`;
+}
@@ -0,0 +1,277 @@
+// Heat stress - WBGT work/rest and water cycles for the shift
+// Feels-like temperature ignores sun and wind, which decide how hot a rider actually gets.
+// Wet bulb globe temperature (WBGT) is estimated from temperature, humidity, wind and UV
+// (UV standing in for sunshine). Occupational heat guidelines turn WBGT into a category
+// with a work/rest cycle and water per hour for moderate work, which delivery riding is.
+// Riding time in heat carries across the shift; a long enough stop counts as the rest.
+
+import { rideEvents } from './rideEvents';
+import { speak } from './voiceOutput';
+import { NEW_SHIFT_REST_MS } from './shiftFatigue';
+import { browserSensorSource, type SensorSource } from './sensorSource';
+import type { WeatherData } from './weatherService';
+import type { RideSnapshot } from './rideProcessor';
+
+const HEAT_STRESS_KEY = 'kavach_heat_stress';
+
+const TICK_MS = 15 * 1000;
+const HYDRATION_EVERY_MS = 20 * 60 * 1000; // Small amounts often - the body can't absorb a litre at once
+const REST_REMINDER_EVERY_MS = 10 * 60 * 1000; // While a break is overdue
+const WATCHFUL_WATER_ML_PER_HOUR = 500; // Below the heat categories
+const SOLAR_PER_UV_INDEX = 90; // W/m² - UV 11 is about full midday sun
+const MAX_SOLAR = 1000;
+
+export type HeatCategory = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface HeatCategoryGuideline {
+  category: HeatCategory;
+  minWbgt: number; // °C
+  workMinutes: number | null; // riding before a break, null = no limit
+  restMinutes: number;
+  waterMlPerHour: number;
+}
+
+// Moderate work, after the US Army TB MED 507 work/rest table
+export const HEAT_GUIDELINES: HeatCategoryGuideline[] = [
+  { category: 0, minWbgt: -Infinity, workMinutes: null, restMinutes: 0, waterMlPerHour: WATCHFUL_WATER_ML_PER_HOUR },
+  { category: 1, minWbgt: 25.6, workMinutes: null, restMinutes: 10, waterMlPerHour: 750 },
+  { category: 2, minWbgt: 27.8, workMinutes: 50, restMinutes: 10, waterMlPerHour: 750 },
+  { category: 3, minWbgt: 29.4, workMinutes: 40, restMinutes: 20, waterMlPerHour: 750 },
+  { category: 4, minWbgt: 31.1, workMinutes: 30, restMinutes: 30, waterMlPerHour: 750 },
+  { category: 5, minWbgt: 32.2, workMinutes: 20, restMinutes: 40, waterMlPerHour: 1000 },
+];
+
+export interface HeatStressStatus {
+  wbgt: number | null; // null without weather
+  guideline: HeatCategoryGuideline;
+  workMs: number; // riding since the last full break
+  shiftExposureMs: number; // riding in heat stress (category 1+) this shift
+  rideExposureMs: number; // ...and this ride
+  restDue: boolean;
+  restStartedAt: number | null; // the current stop, while a break is due
+  restEndsAt: number | null;
+}
+
+export type HeatStressEvent = {
+  phase: 'rest_due' | 'rest_started' | 'rest_interrupted' | 'rest_done' | 'hydrate';
+  status: HeatStressStatus;
+  waterMl?: number; // hydrate: how much to drink now
+  timestamp: number;
+};
+
+interface StoredHeatStress {
+  updatedAt: number;
+  workMs: number;
+  shiftExposureMs: number;
+  restDue: boolean;
+}
+
+// Stull (2011): wet bulb temperature from air temperature (°C) and relative humidity (%)
+function wetBulb(t: number, rh: number): number {
+  return t * Math.atan(0.151977 * Math.sqrt(rh + 8.313659)) +
+    Math.atan(t + rh) -
+    Math.atan(rh - 1.676331) +
+    0.00391838 * Math.pow(rh, 1.5) * Math.atan(0.023101 * rh) -
+    4.686035;
+}
+
+// Outdoor WBGT = 0.7 natural wet bulb + 0.2 globe + 0.1 air temperature.
+// Weather-station wind only: a rider's own airflow stops in traffic, exactly when heat builds.
+export function estimateWBGT(weather: Pick<WeatherData, 'temperature' | 'humidity' | 'windSpeed' | 'uvIndex'>): number {
+  const t = weather.temperature;
+  const wind = Math.max(0.5, weather.windSpeed / 3.6); // m/s
+  const solar = Math.min(MAX_SOLAR, Math.max(0, weather.uvIndex) * SOLAR_PER_UV_INDEX);
+
+  // Globe: radiant heat from the sun, carried off by wind
+  const globe = t + 0.0153 * solar / (1 + 0.4 * Math.sqrt(wind));
+  // Natural wet bulb: evaporative cooling, warmed a little by the same sun
+  const naturalWetBulb = wetBulb(t, Math.min(99, Math.max(5, weather.humidity))) + 0.1 * (globe - t);
+
+  return Math.round((0.7 * naturalWetBulb + 0.2 * globe + 0.1 * t) * 10) / 10;
+}
+
+export function getHeatGuideline(wbgt: number | null): HeatCategoryGuideline {
+  if (wbgt === null) return HEAT_GUIDELINES[0];
+  let guideline = HEAT_GUIDELINES[0];
+  for (const g of HEAT_GUIDELINES) {
+    if (wbgt >= g.minWbgt) guideline = g;
+  }
+  return guideline;
+}
+
+function loadStored(now: number): StoredHeatStress {
+  const empty: StoredHeatStress = { updatedAt: now, workMs: 0, shiftExposureMs: 0, restDue: false };
+  try {
+    const data = localStorage.getItem(HEAT_STRESS_KEY);
+    if (!data) return empty;
+    const stored: StoredHeatStress = JSON.parse(data);
+    // A night's sleep starts a new shift
+    return now - stored.updatedAt >= NEW_SHIFT_REST_MS ? empty : stored;
+  } catch {
+    return empty;
+  }
+}
+
+function saveStored(stored: StoredHeatStress): void {
+  try {
+    localStorage.setItem(HEAT_STRESS_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.error('Failed to save heat stress:', e);
+  }
+}
+
+// Prescribes breaks and water while riding, from the weather and the ride's stops
+export class HeatStressMonitor {
+  private tickInterval: number | null = null;
+  private source: SensorSource = browserSensorSource;
+  private getSnapshot: () => RideSnapshot | null = () => null;
+  private getWeather: () => WeatherData | null = () => null;
+  private stored: StoredHeatStress = { updatedAt: 0, workMs: 0, shiftExposureMs: 0, restDue: false };
+  private rideExposureMs = 0;
+  private wbgt: number | null = null;
+  private lastTick = 0;
+  private restStartedAt: number | null = null;
+  private sinceWaterMs = 0;
+  private lastRestReminder = 0;
+
+  // source: the ride engine's, so break and water timing follow recorded and replayed rides
+  start(
+    getSnapshot: () => RideSnapshot | null,
+    getWeather: () => WeatherData | null,
+    source: SensorSource = browserSensorSource
+  ): void {
+    this.stop();
+    this.source = source;
+    const now = this.source.now();
+    this.getSnapshot = getSnapshot;
+    this.getWeather = getWeather;
+    this.stored = loadStored(now);
+    this.wbgt = null;
+    this.rideExposureMs = 0;
+    this.sinceWaterMs = 0;
+    this.restStartedAt = null;
+    this.lastRestReminder = 0;
+
+    // The time off the bike since the last ride is rest too
+    const guideline = this.updateGuideline();
+    if (now - this.stored.updatedAt >= Math.max(guideline.restMinutes, 10) * 60 * 1000) {
+      this.stored.workMs = 0;
+      this.stored.restDue = false;
+    }
+
+    this.lastTick = now;
+    this.tickInterval = this.source.setInterval(() => this.tick(), TICK_MS);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.tickInterval !== null) {
+      this.source.clearInterval(this.tickInterval);
+      this.tickInterval = null;
+      this.stored.updatedAt = this.source.now();
+      saveStored(this.stored);
+    }
+  }
+
+  getStatus(): HeatStressStatus {
+    const guideline = getHeatGuideline(this.wbgt);
+    const restStartedAt = this.stored.restDue ? this.restStartedAt : null;
+    return {
+      wbgt: this.wbgt,
+      guideline,
+      workMs: this.stored.workMs,
+      shiftExposureMs: this.stored.shiftExposureMs,
+      rideExposureMs: this.rideExposureMs,
+      restDue: this.stored.restDue,
+      restStartedAt,
+      restEndsAt: restStartedAt !== null ? restStartedAt + guideline.restMinutes * 60 * 1000 : null,
+    };
+  }
+
+  private updateGuideline(): HeatCategoryGuideline {
+    const weather = this.getWeather();
+    this.wbgt = weather ? estimateWBGT(weather) : null;
+    return getHeatGuideline(this.wbgt);
+  }
+
+  private emit(phase: HeatStressEvent['phase'], now: number, waterMl?: number): void {
+    rideEvents.emit('heat_stress', { phase, status: this.getStatus(), waterMl, timestamp: now });
+  }
+
+  private tick(): void {
+    const now = this.source.now();
+    const dt = Math.max(0, now - this.lastTick);
+    this.lastTick = now;
+
+    const guideline = this.updateGuideline();
+    const stop = this.getSnapshot()?.currentStop;
+
+    if (stop?.confirmed) {
+      this.rest(stop.since, now, guideline);
+    } else {
+      this.ride(dt, now, guideline);
+    }
+
+    this.stored.updatedAt = now;
+    saveStored(this.stored);
+  }
+
+  private rest(since: number, now: number, guideline: HeatCategoryGuideline): void {
+    if (this.restStartedAt === null) {
+      this.restStartedAt = since;
+      if (this.stored.restDue) this.emit('rest_started', now);
+    }
+
+    // A full break resets the cycle, due or not; cooler conditions still need ten minutes
+    const neededMs = Math.max(guideline.restMinutes, 10) * 60 * 1000;
+    if (now - since < neededMs || this.stored.workMs === 0) return;
+
+    this.stored.workMs = 0;
+    this.sinceWaterMs = 0; // Water is at hand on a break
+    if (this.stored.restDue) {
+      this.stored.restDue = false;
+      speak('heat_rest_done');
+      this.emit('rest_done', now);
+    }
+  }
+
+  private ride(dt: number, now: number, guideline: HeatCategoryGuideline): void {
+    if (this.restStartedAt !== null) {
+      const interrupted = this.stored.restDue;
+      this.restStartedAt = null;
+      if (interrupted) {
+        this.lastRestReminder = now; // The interruption is the reminder
+        this.emit('rest_interrupted', now);
+      }
+    }
+
+    this.stored.workMs += dt;
+    if (guideline.category >= 1) {
+      this.stored.shiftExposureMs += dt;
+      this.rideExposureMs += dt;
+    }
+
+    // Work/rest cycle: riding time in this category is up
+    const workLimitMs = guideline.workMinutes !== null ? guideline.workMinutes * 60 * 1000 : null;
+    if (workLimitMs !== null && this.stored.workMs >= workLimitMs) {
+      if (!this.stored.restDue || now - this.lastRestReminder >= REST_REMINDER_EVERY_MS) {
+        this.stored.restDue = true;
+        this.lastRestReminder = now;
+        speak('heat_rest_due');
+        this.emit('rest_due', now);
+      }
+    }
+
+    // Water on a fixed rhythm in heat stress, sized to the hourly amount
+    if (guideline.category >= 1) {
+      this.sinceWaterMs += dt;
+      if (this.sinceWaterMs >= HYDRATION_EVERY_MS) {
+        this.sinceWaterMs = 0;
+        speak('hydration_reminder');
+        this.emit('hydrate', now, Math.round(guideline.waterMlPerHour * HYDRATION_EVERY_MS / (60 * 60 * 1000)));
+      }
+    }
+  }
+}
+
+export const heatStressMonitor = new HeatStressMonitor();
@@ -0,0 +1,193 @@
+// Known places - home, hubs and frequent pickup points
+// Waiting at a restaurant or a dark store looks exactly like a rider who has collapsed,
+// so idle checks and their confidence depend on where the stop is. Places are learned from
+// repeated long stops (and from idle alerts the rider dismissed there, via locationMemory)
+// and can be added, renamed, retyped or removed by the rider. They never leave the device.
+// No Supabase import at module level: the sensor worker uses the matching helpers.
+
+import { haversineDistance } from './positionFilter';
+import type { RideSegment } from './rideSegments';
+
+const KNOWN_PLACES_KEY = 'kavach_known_places';
+
+export type KnownPlaceType = 'home' | 'hub' | 'pickup';
+
+export interface KnownPlace {
+  id: string;
+  name: string;
+  type: KnownPlaceType;
+  lat: number;
+  lng: number;
+  radiusM: number;
+  source: 'learned' | 'rider';
+  confirmed: boolean; // learned places count once stopped at often enough
+  visits: number; // long stops here
+  totalStopMs: number;
+  lastVisit: number;
+}
+
+export const KNOWN_PLACE_LABELS: Record<KnownPlaceType, string> = {
+  home: 'Home',
+  hub: 'Hub',
+  pickup: 'Pickup point',
+};
+
+// Idle allowance as a multiple of the vehicle's idle warning time; null = no idle check
+const IDLE_FACTOR: Record<KnownPlaceType, number | null> = {
+  home: null,
+  hub: 6, // Waiting for orders at a dark store or hub
+  pickup: 3, // Restaurant pickups
+};
+
+// Added to the location confidence adjustment for idle alerts at a known place
+export const KNOWN_PLACE_IDLE_CONFIDENCE: Record<KnownPlaceType, number> = {
+  home: -30,
+  hub: -20,
+  pickup: -10,
+};
+
+const PLACE_RADIUS_M = 75; // A building and its parking
+const LEARN_MIN_STOP_MS = 5 * 60 * 1000; // Shorter stops are drop-offs, not places
+const LEARN_MIN_VISITS = 3;
+const LEARN_MIN_DISMISSED_IDLE = 2; // Rider said "I'm OK" to idle alerts here this often
+const HUB_MIN_AVG_STOP_MS = 30 * 60 * 1000;
+const MAX_PLACES = 100;
+
+export function findKnownPlace(places: KnownPlace[], location: { lat: number; lng: number }): KnownPlace | null {
+  let nearest: KnownPlace | null = null;
+  let nearestDistance = Infinity;
+  for (const place of places) {
+    if (!place.confirmed) continue;
+    const distance = haversineDistance(place.lat, place.lng, location.lat, location.lng);
+    if (distance <= place.radiusM && distance < nearestDistance) {
+      nearest = place;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+// How long a stop may last before an idle check; null when there's none at this place
+export function getIdleAllowanceMs(idleWarningMs: number, place: KnownPlace | null, recurring: boolean, recurringFactor: number): number | null {
+  if (place) {
+    const factor = IDLE_FACTOR[place.type];
+    return factor === null ? null : idleWarningMs * factor;
+  }
+  return recurring ? idleWarningMs * recurringFactor : idleWarningMs;
+}
+
+function generateId(): string {
+  return crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function getKnownPlaces(): KnownPlace[] {
+  try {
+    const data = localStorage.getItem(KNOWN_PLACES_KEY);
+    if (data) return JSON.parse(data);
+  } catch {
+    // Ignore parse errors
+  }
+  return [];
+}
+
+function savePlaces(places: KnownPlace[]): void {
+  try {
+    localStorage.setItem(KNOWN_PLACES_KEY, JSON.stringify(places));
+  } catch (e) {
+    console.error('Failed to save known places:', e);
+  }
+}
+
+// Places the idle check should know about
+export function getConfirmedPlaces(): KnownPlace[] {
+  return getKnownPlaces().filter(p => p.confirmed);
+}
+
+export function addKnownPlace(location: { lat: number; lng: number }, type: KnownPlaceType, name?: string): KnownPlace {
+  const place: KnownPlace = {
+    id: generateId(),
+    name: name || KNOWN_PLACE_LABELS[type],
+    type,
+    lat: location.lat,
+    lng: location.lng,
+    radiusM: PLACE_RADIUS_M,
+    source: 'rider',
+    confirmed: true,
+    visits: 0,
+    totalStopMs: 0,
+    lastVisit: Date.now(),
+  };
+  savePlaces([...getKnownPlaces(), place]);
+  return place;
+}
+
+// Rider edits take the place out of learning's hands
+export function updateKnownPlace(id: string, changes: Partial<Pick<KnownPlace, 'name' | 'type'>>): void {
+  savePlaces(getKnownPlaces().map(p => p.id === id ? { ...p, ...changes, source: 'rider', confirmed: true } : p));
+}
+
+export function removeKnownPlace(id: string): void {
+  savePlaces(getKnownPlaces().filter(p => p.id !== id));
+}
+
+// After each ride: count its long stops towards places, and promote the ones stopped at often
+export async function learnKnownPlaces(segments: RideSegment[]): Promise<void> {
+  const stops = segments.filter(s =>
+    s.kind === 'stopped' && s.endTime !== null && s.endTime - s.startTime >= LEARN_MIN_STOP_MS
+  );
+  if (stops.length === 0) return;
+
+  // Loaded lazily: it pulls in the Supabase client
+  const { getLocationMemory } = await import('./locationMemory');
+  const places = getKnownPlaces();
+
+  for (const stop of stops) {
+    const durationMs = stop.endTime! - stop.startTime;
+    let place = places.find(p =>
+      haversineDistance(p.lat, p.lng, stop.location.lat, stop.location.lng) <= p.radiusM
+    );
+
+    if (!place) {
+      place = {
+        id: generateId(),
+        name: KNOWN_PLACE_LABELS.pickup,
+        type: 'pickup',
+        lat: stop.location.lat,
+        lng: stop.location.lng,
+        radiusM: PLACE_RADIUS_M,
+        source: 'learned',
+        confirmed: false,
+        visits: 0,
+        totalStopMs: 0,
+        lastVisit: 0,
+      };
+      places.push(place);
+    }
+
+    place.visits++;
+    place.totalStopMs += durationMs;
+    place.lastVisit = stop.endTime!;
+    if (place.source === 'rider') continue;
+
+    // Long waits on average = a hub the rider waits at for orders
+    const averageStopMs = place.totalStopMs / place.visits;
+    const type: KnownPlaceType = averageStopMs >= HUB_MIN_AVG_STOP_MS ? 'hub' : 'pickup';
+    if (type !== place.type) {
+      place.type = type;
+      place.name = KNOWN_PLACE_LABELS[type];
+    }
+
+    const memory = getLocationMemory(place.lat, place.lng);
+    const dismissedIdle = memory?.sensorSignature?.eventTypes.includes('long_idle') ? memory.falseAlarmCount : 0;
+    if (place.visits >= LEARN_MIN_VISITS || dismissedIdle >= LEARN_MIN_DISMISSED_IDLE) {
+      place.confirmed = true;
+    }
+  }
+
+  // Keep rider places and confirmed ones; drop the stalest one-off candidates
+  const kept = places
+    .sort((a, b) => Number(b.source === 'rider') - Number(a.source === 'rider') ||
+      Number(b.confirmed) - Number(a.confirmed) || b.lastVisit - a.lastVisit)
+    .slice(0, MAX_PLACES);
+  savePlaces(kept);
+}
@@ -0,0 +1,35 @@
+// Local risk detectors - region-specific rules plugged into the ride monitor
+// Each one registers itself with the detector registry (see riskDetectors.ts).
+// Imported for its side effect by rideProcessor, so it runs in the sensor worker too.
+
+import { registerRiskDetector, type RiskDetector } from './riskDetectors';
+
+const WET_SPEED_FACTOR = 0.75; // In rain, warn from 3/4 of the vehicle's dry speed limit
+
+// Monsoon: stopping distances grow on wet roads, so the safe speed drops before
+// the ordinary speed warning would fire
+export const wetRoadSpeedDetector: RiskDetector = {
+  type: 'wet_road_speed',
+  label: 'Wet Road Speed',
+  defaultSeverity: 'medium',
+  voiceMessages: {
+    'en-IN': { wet_road_speed: 'Wet road. Slow down, braking takes longer.' },
+    'hi-IN': { wet_road_speed: 'गीली सड़क। धीमे चलें, ब्रेक लगने में समय लगता है।' },
+    'ta-IN': { wet_road_speed: 'ஈரமான சாலை. வேகத்தை குறையுங்கள்.' },
+  },
+  // A speed nudge, scored like speed warnings
+  adjustIntensity: intensity => Math.max(10, intensity - 5),
+  create: context => ({
+    onFix: fix => {
+      if (!context.getWeather()?.isRaining) return;
+
+      // Above the dry limit the ordinary speed warning takes over
+      const dryLimit = context.getProfile().speedThresholdKmh;
+      if (fix.speedKmh > dryLimit * WET_SPEED_FACTOR && fix.speedKmh <= dryLimit) {
+        context.report({ message: `${Math.round(fix.speedKmh)} km/h in rain` });
+      }
+    },
+  }),
+};
+
+registerRiskDetector(wetRoadSpeedDetector);
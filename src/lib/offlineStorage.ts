@@ -2,12 +2,20 @@
 // Syncs to cloud when network returns
 
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { getDeviceId } from './deviceId';
 import type { RiskEvent, RideState } from './rideMonitor';
+import type { RideSegment } from './rideSegments';
+import type { VehicleType } from './vehicleProfiles';
+import { encodeTrack } from './routeTrack';
+import { formatLocationAge, type LocationEstimate } from './gpsHealth';
+import type { WellnessCheck } from './wellnessCheck';
+import { markNudgeOutcomes, type FatigueTimeline } from './fatigueTimeline';
 
 const RIDE_SESSIONS_KEY = 'kavach_ride_sessions';
 const RISK_EVENTS_KEY = 'kavach_risk_events';
 const EMERGENCY_EVENTS_KEY = 'kavach_emergency_events';
+const WELLNESS_CHECKS_KEY = 'kavach_wellness_checks';
 const SYNC_QUEUE_KEY = 'kavach_sync_queue';
 
 interface StoredRideSession {
@@ -19,6 +27,11 @@ interface StoredRideSession {
   status: 'active' | 'completed' | 'emergency';
   start_location?: { lat: number; lng: number };
   end_location?: { lat: number; lng: number };
+  vehicle_profile?: VehicleType;
+  route_polyline?: string; // Encoded breadcrumb track, see routeTrack.ts
+  segments?: RideSegment[]; // Riding legs and stops
+  active_seconds?: number; // Riding time excluding stops
+  fatigue_timeline?: FatigueTimeline; // Fatigue scores through the ride, and each nudge
   synced: boolean;
 }
 
@@ -34,12 +47,54 @@ interface StoredRiskEvent {
   synced: boolean;
 }
 
+interface StoredWellnessCheck {
+  id: string;
+  ride_session_id: string;
+  device_id: string;
+  result: WellnessCheck['result'];
+  attempts: number;
+  response_time_ms: number | null;
+  interval_minutes: number;
+  fatigue_level: WellnessCheck['fatigueLevel'];
+  feels_like: number | null;
+  emergency_raised: boolean;
+  created_at: string;
+  synced: boolean;
+}
+
+export type EmergencyTriggerType = 'manual' | 'auto_fall' | 'auto_idle' | 'auto_crash' | 'missed_check_in';
+
+// Where the rider was, and how sure we are - after a tunnel the last fix can be minutes old
+export interface EmergencyLocation {
+  lat: number;
+  lng: number;
+  age_seconds: number; // since the last real GPS fix
+  uncertainty_m: number; // radius
+  source: LocationEstimate['source'];
+}
+
+export function toEmergencyLocation(estimate: LocationEstimate, now = Date.now()): EmergencyLocation {
+  return {
+    lat: estimate.lat,
+    lng: estimate.lng,
+    age_seconds: Math.max(0, Math.round((now - estimate.fixTimestamp) / 1000)),
+    uncertainty_m: estimate.uncertaintyM,
+    source: estimate.source,
+  };
+}
+
+// Said plainly, so nobody trusts a stale pin: "Last GPS fix 3 min ago, estimated within ~400 m"
+export function describeEmergencyLocation(location: EmergencyLocation): string {
+  const estimated = location.source === 'dead_reckoning' ? 'estimated ' : '';
+  return `Last GPS fix ${formatLocationAge(location.age_seconds * 1000)}, ${estimated}within ~${location.uncertainty_m} m`;
+}
+
 interface StoredEmergencyEvent {
   id: string;
   ride_session_id: string;
   device_id: string;
-  trigger_type: 'manual' | 'auto_fall' | 'auto_idle' | 'auto_crash';
-  location?: { lat: number; lng: number };
+  trigger_type: EmergencyTriggerType;
+  location?: EmergencyLocation;
   status: 'active' | 'resolved' | 'false_alarm';
   created_at: string;
   synced: boolean;
@@ -75,7 +130,10 @@ function saveData<T>(key: string, data: T[]): void {
 }
 
 // Ride Sessions
-export async function startRideSession(location?: { lat: number; lng: number }): Promise<string> {
+export async function startRideSession(
+  location?: { lat: number; lng: number },
+  vehicleProfile?: VehicleType
+): Promise<string> {
   const deviceId = getDeviceId();
   const sessionId = generateId();
   
@@ -85,6 +143,7 @@ export async function startRideSession(location?: { lat: number; lng: number }):
     started_at: new Date().toISOString(),
     status: 'active',
     start_location: location,
+    vehicle_profile: vehicleProfile,
     synced: false,
   };
   
@@ -98,27 +157,39 @@ export async function startRideSession(location?: { lat: number; lng: number }):
   return sessionId;
 }
 
+// partial: the ride result was rebuilt from snapshots; its empty track and segments aren't saved
 export async function endRideSession(
   sessionId: string,
-  finalState: RideState
+  finalState: RideState,
+  fatigueTimeline?: FatigueTimeline | null,
+  partial = false
 ): Promise<void> {
   const sessions = getStoredData<StoredRideSession>(RIDE_SESSIONS_KEY);
   const sessionIndex = sessions.findIndex(s => s.id === sessionId);
   
   if (sessionIndex !== -1) {
+    const endTime = Date.now();
     const duration = finalState.startTime 
-      ? Math.round((Date.now() - finalState.startTime) / 1000)
+      ? Math.round((endTime - finalState.startTime) / 1000)
       : 0;
     
     sessions[sessionIndex] = {
       ...sessions[sessionIndex],
-      ended_at: new Date().toISOString(),
+      ended_at: new Date(endTime).toISOString(),
       duration_seconds: duration,
       status: 'completed',
       end_location: finalState.lastPosition ? {
         lat: finalState.lastPosition.coords.latitude,
         lng: finalState.lastPosition.coords.longitude,
       } : undefined,
+      route_polyline: !partial && finalState.track.length > 0
+        ? encodeTrack(finalState.track, new Date(sessions[sessionIndex].started_at).getTime())
+        : sessions[sessionIndex].route_polyline,
+      segments: partial ? sessions[sessionIndex].segments : finalState.segments,
+      active_seconds: Math.round(finalState.activeRidingMs / 1000),
+      fatigue_timeline: fatigueTimeline && !partial
+        ? markNudgeOutcomes(fatigueTimeline, finalState.segments, endTime)
+        : undefined,
       synced: false,
     };
     
@@ -153,11 +224,38 @@ export async function saveRiskEvent(
   syncToCloud();
 }
 
+// Wellness check-ins
+export async function saveWellnessCheck(
+  sessionId: string,
+  check: WellnessCheck
+): Promise<void> {
+  const stored: StoredWellnessCheck = {
+    id: generateId(),
+    ride_session_id: sessionId,
+    device_id: getDeviceId(),
+    result: check.result,
+    attempts: check.attempts,
+    response_time_ms: check.responseTimeMs,
+    interval_minutes: Math.round(check.intervalMs / 60000),
+    fatigue_level: check.fatigueLevel,
+    feels_like: check.feelsLike,
+    emergency_raised: check.emergencyRaised,
+    created_at: new Date(check.timestamp).toISOString(),
+    synced: false,
+  };
+  
+  const checks = getStoredData<StoredWellnessCheck>(WELLNESS_CHECKS_KEY);
+  checks.push(stored);
+  saveData(WELLNESS_CHECKS_KEY, checks);
+  
+  syncToCloud();
+}
+
 // Emergency Events
 export async function saveEmergencyEvent(
   sessionId: string,
-  triggerType: 'manual' | 'auto_fall' | 'auto_idle' | 'auto_crash',
-  location?: { lat: number; lng: number }
+  triggerType: EmergencyTriggerType,
+  location?: EmergencyLocation
 ): Promise<string> {
   const deviceId = getDeviceId();
   const eventId = generateId();
@@ -220,6 +318,11 @@ async function syncToCloud(): Promise<void> {
         status: session.status,
         start_location: session.start_location,
         end_location: session.end_location,
+        vehicle_profile: session.vehicle_profile,
+        route_polyline: session.route_polyline,
+        segments: session.segments as unknown as Json,
+        active_seconds: session.active_seconds,
+        fatigue_timeline: session.fatigue_timeline as unknown as Json,
       });
       
       if (!error) {
@@ -260,7 +363,7 @@ async function syncToCloud(): Promise<void> {
         ride_session_id: event.ride_session_id,
         device_id: event.device_id,
         trigger_type: event.trigger_type,
-        location: event.location,
+        location: event.location as unknown as Json,
         status: event.status,
         created_at: event.created_at,
       });
@@ -271,6 +374,31 @@ async function syncToCloud(): Promise<void> {
     }
     saveData(EMERGENCY_EVENTS_KEY, emergencyEvents);
     
+    // Sync wellness check-ins
+    const wellnessChecks = getStoredData<StoredWellnessCheck>(WELLNESS_CHECKS_KEY);
+    const unsyncedWellnessChecks = wellnessChecks.filter(c => !c.synced);
+    
+    for (const check of unsyncedWellnessChecks) {
+      const { error } = await supabase.from('wellness_checks').upsert({
+        id: check.id,
+        ride_session_id: check.ride_session_id,
+        device_id: check.device_id,
+        result: check.result,
+        attempts: check.attempts,
+        response_time_ms: check.response_time_ms,
+        interval_minutes: check.interval_minutes,
+        fatigue_level: check.fatigue_level,
+        feels_like: check.feels_like,
+        emergency_raised: check.emergency_raised,
+        created_at: check.created_at,
+      });
+      
+      if (!error) {
+        check.synced = true;
+      }
+    }
+    saveData(WELLNESS_CHECKS_KEY, wellnessChecks);
+    
   } catch (error) {
     console.warn('Sync failed, will retry later:', error);
   }
@@ -285,7 +413,7 @@ async function syncEmergencyToCloud(event: StoredEmergencyEvent): Promise<void>
       ride_session_id: event.ride_session_id,
       device_id: event.device_id,
       trigger_type: event.trigger_type,
-      location: event.location,
+      location: event.location as unknown as Json,
       status: event.status,
       created_at: event.created_at,
     });
@@ -318,6 +446,12 @@ export function getLocalRideHistory(): StoredRideSession[] {
     .sort((a, b) => new Date(b.started_at).getTime() - new Date(a.started_at).getTime());
 }
 
+export function getLocalRiskEvents(): StoredRiskEvent[] {
+  const deviceId = getDeviceId();
+  return getStoredData<StoredRiskEvent>(RISK_EVENTS_KEY)
+    .filter(e => e.device_id === deviceId);
+}
+
 // Clear old data (keep last 30 days)
 export function cleanupOldData(): void {
   const thirtyDaysAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
@@ -329,4 +463,8 @@ export function cleanupOldData(): void {
   const riskEvents = getStoredData<StoredRiskEvent>(RISK_EVENTS_KEY)
     .filter(e => new Date(e.created_at).getTime() > thirtyDaysAgo);
   saveData(RISK_EVENTS_KEY, riskEvents);
+  
+  const wellnessChecks = getStoredData<StoredWellnessCheck>(WELLNESS_CHECKS_KEY)
+    .filter(c => new Date(c.created_at).getTime() > thirtyDaysAgo);
+  saveData(WELLNESS_CHECKS_KEY, wellnessChecks);
 }
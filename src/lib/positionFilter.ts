@@ -0,0 +1,175 @@
+// GPS position filtering - runs before any risk rule sees a fix
+// Rejects low-accuracy fixes, fuses Doppler speed and Kalman-smooths the track
+// so jitter at a red light doesn't look like movement, speeding or a sudden stop
+
+export interface FilteredFix {
+  lat: number;
+  lng: number;
+  accuracy: number; // metres, estimated uncertainty after smoothing
+  speedKmh: number;
+  heading: number | null; // degrees from north, null when stationary/unknown
+  distanceDelta: number; // metres travelled since previous accepted fix
+  timestamp: number; // fix time (ms)
+  dopplerSpeed: boolean; // true if speed came from the device, not derived
+}
+
+// Fix gating
+const MAX_ACCURACY_M = 35; // Ignore fixes worse than this
+const MAX_PLAUSIBLE_SPEED_KMH = 160; // Anything faster between fixes is a GPS jump
+const MIN_FIX_INTERVAL_MS = 200; // Duplicate / burst fixes
+
+// Kalman tuning
+const POSITION_PROCESS_NOISE = 3; // m/s of unmodelled movement
+const SPEED_PROCESS_NOISE = 4; // m/s² - hard braking on a two-wheeler
+const DOPPLER_SPEED_NOISE = 0.5; // m/s - typical Doppler speed accuracy
+
+// Without Doppler, speed is derived over a baseline long enough to average out jitter
+const DERIVED_SPEED_BASELINE_MS = 5000;
+const TRACK_HISTORY_MS = 15000;
+
+// Below this the rider is treated as stationary (no distance, no heading)
+export const STATIONARY_SPEED_KMH = 2;
+
+export class PositionFilter {
+  private lat = 0;
+  private lng = 0;
+  private variance = -1; // m², negative = not initialised
+  private speed = 0; // m/s
+  private speedVariance = 0;
+  private lastTimestamp = 0;
+  private lastFix: FilteredFix | null = null;
+  private track: { timestamp: number; lat: number; lng: number; accuracy: number }[] = [];
+
+  reset(): void {
+    this.variance = -1;
+    this.speed = 0;
+    this.speedVariance = 0;
+    this.lastTimestamp = 0;
+    this.lastFix = null;
+    this.track = [];
+  }
+
+  getLastFix(): FilteredFix | null {
+    return this.lastFix;
+  }
+
+  // Returns the smoothed fix, or null if the raw fix was rejected
+  update(position: GeolocationPosition): FilteredFix | null {
+    const { latitude, longitude, accuracy, speed, heading } = position.coords;
+    const timestamp = position.timestamp;
+    const measuredAccuracy = Math.max(1, accuracy || MAX_ACCURACY_M);
+
+    if (measuredAccuracy > MAX_ACCURACY_M) return null;
+
+    // First accepted fix seeds the filter
+    if (this.variance < 0) {
+      this.lat = latitude;
+      this.lng = longitude;
+      this.variance = measuredAccuracy ** 2;
+      this.speed = speed !== null && speed !== undefined && speed >= 0 ? speed : 0;
+      this.speedVariance = DOPPLER_SPEED_NOISE ** 2;
+      this.lastTimestamp = timestamp;
+      this.track = [{ timestamp, lat: latitude, lng: longitude, accuracy: measuredAccuracy }];
+      this.lastFix = {
+        lat: latitude,
+        lng: longitude,
+        accuracy: measuredAccuracy,
+        speedKmh: this.speed * 3.6,
+        heading: null,
+        distanceDelta: 0,
+        timestamp,
+        dopplerSpeed: speed !== null && speed !== undefined,
+      };
+      return this.lastFix;
+    }
+
+    const dtMs = timestamp - this.lastTimestamp;
+    if (dtMs < MIN_FIX_INTERVAL_MS) return null;
+    const dt = dtMs / 1000;
+
+    // Outlier rejection: implausible jump beyond what accuracy can explain
+    const rawDistance = haversineDistance(this.lat, this.lng, latitude, longitude);
+    const unexplained = Math.max(0, rawDistance - measuredAccuracy - Math.sqrt(this.variance));
+    if ((unexplained / dt) * 3.6 > MAX_PLAUSIBLE_SPEED_KMH) return null;
+
+    // Position: constant-position Kalman filter, process noise grows with speed
+    const q = Math.max(POSITION_PROCESS_NOISE, this.speed);
+    this.variance += dt * q * q;
+    const k = this.variance / (this.variance + measuredAccuracy ** 2);
+    const prevLat = this.lat;
+    const prevLng = this.lng;
+    this.lat += k * (latitude - this.lat);
+    this.lng += k * (longitude - this.lng);
+    this.variance = (1 - k) * this.variance;
+    const smoothedAccuracy = Math.sqrt(this.variance);
+
+    this.track = this.track.filter(p => timestamp - p.timestamp <= TRACK_HISTORY_MS);
+    this.track.push({ timestamp, lat: this.lat, lng: this.lng, accuracy: smoothedAccuracy });
+
+    // Speed measurement: Doppler when available, else derived from the smoothed track
+    const hasDoppler = speed !== null && speed !== undefined && speed >= 0;
+    let measuredSpeed: number;
+    let speedNoise: number;
+    if (hasDoppler) {
+      measuredSpeed = speed;
+      speedNoise = DOPPLER_SPEED_NOISE;
+    } else {
+      const base = this.track.find(p => timestamp - p.timestamp >= DERIVED_SPEED_BASELINE_MS) || this.track[0];
+      const baselineSeconds = Math.max(dt, (timestamp - base.timestamp) / 1000);
+      const displacement = haversineDistance(base.lat, base.lng, this.lat, this.lng);
+      // Displacement within combined accuracy is indistinguishable from standing still
+      const noiseFloor = smoothedAccuracy + base.accuracy;
+      measuredSpeed = displacement > noiseFloor ? displacement / baselineSeconds : 0;
+      speedNoise = Math.max(DOPPLER_SPEED_NOISE, noiseFloor / baselineSeconds);
+    }
+
+    // Speed: scalar Kalman filter
+    this.speedVariance += (SPEED_PROCESS_NOISE * dt) ** 2;
+    const ks = this.speedVariance / (this.speedVariance + speedNoise ** 2);
+    this.speed = Math.max(0, this.speed + ks * (measuredSpeed - this.speed));
+    this.speedVariance = (1 - ks) * this.speedVariance;
+
+    const speedKmh = this.speed * 3.6;
+    const moving = speedKmh >= STATIONARY_SPEED_KMH;
+    const distanceDelta = moving ? haversineDistance(prevLat, prevLng, this.lat, this.lng) : 0;
+
+    this.lastTimestamp = timestamp;
+    this.lastFix = {
+      lat: this.lat,
+      lng: this.lng,
+      accuracy: smoothedAccuracy,
+      speedKmh,
+      heading: moving
+        ? (hasDoppler && heading !== null && !Number.isNaN(heading) ? heading : bearing(prevLat, prevLng, this.lat, this.lng))
+        : null,
+      distanceDelta,
+      timestamp,
+      dopplerSpeed: hasDoppler,
+    };
+    return this.lastFix;
+  }
+}
+
+function toRad(deg: number): number {
+  return deg * (Math.PI / 180);
+}
+
+export function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371000; // Earth's radius in meters
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Initial bearing from point 1 to point 2, degrees from north
+export function bearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const y = Math.sin(toRad(lon2 - lon1)) * Math.cos(toRad(lat2));
+  const x = Math.cos(toRad(lat1)) * Math.sin(toRad(lat2)) -
+    Math.sin(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.cos(toRad(lon2 - lon1));
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+}
@@ -0,0 +1,172 @@
+// Battery-aware sensor sampling - keeps protection running through a full shift
+// Steps GPS and motion sampling through tiers from battery level, speed and current risk.
+// Fall and crash detection run in every tier; everything else can be throttled or paused.
+
+export type SamplingTier = 'full' | 'balanced' | 'saver' | 'critical';
+
+export interface SamplingTierConfig {
+  label: string;
+  gps: PositionOptions;
+  drivingEventIntervalMs: number | null; // null = harsh driving detection paused
+  fatigueSensors: boolean; // accelerometer/gyro for fatigue scoring
+  roadQuality: boolean; // pothole and rough-road mapping
+}
+
+export const SAMPLING_TIERS: Record<SamplingTier, SamplingTierConfig> = {
+  full: {
+    label: 'Full',
+    gps: { enableHighAccuracy: true, timeout: 5000, maximumAge: 1000 },
+    drivingEventIntervalMs: 0, // every motion event
+    fatigueSensors: true,
+    roadQuality: true,
+  },
+  balanced: {
+    label: 'Balanced',
+    gps: { enableHighAccuracy: true, timeout: 10000, maximumAge: 3000 },
+    drivingEventIntervalMs: 50, // ~20 Hz
+    fatigueSensors: true,
+    roadQuality: true,
+  },
+  saver: {
+    label: 'Saver',
+    gps: { enableHighAccuracy: true, timeout: 20000, maximumAge: 10000 },
+    drivingEventIntervalMs: 100, // ~10 Hz
+    fatigueSensors: false,
+    roadQuality: false,
+  },
+  critical: {
+    label: 'Critical',
+    gps: { enableHighAccuracy: false, timeout: 30000, maximumAge: 30000 },
+    drivingEventIntervalMs: null,
+    fatigueSensors: false,
+    roadQuality: false,
+  },
+};
+
+// Most to least power hungry
+const TIER_ORDER: SamplingTier[] = ['full', 'balanced', 'saver', 'critical'];
+
+// Battery level (0-1) below which each tier becomes the baseline
+const BALANCED_BELOW = 0.5;
+const SAVER_BELOW = 0.3;
+const CRITICAL_BELOW = 0.15;
+
+const TIER_DOWNGRADE_DWELL_MS = 60 * 1000; // Step down at most once a minute, step up at once
+
+export interface BatteryStatus {
+  level: number | null; // 0-1, null when the Battery Status API is unavailable
+  charging: boolean;
+}
+
+export interface SamplingContext {
+  stationary: boolean;
+  fast: boolean; // near the vehicle's speed threshold
+  elevatedRisk: boolean; // recent serious risk event, or a crash assessment in progress
+}
+
+// Battery Status API - not in the TS DOM lib, and missing on Safari/Firefox
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+type NavigatorWithBattery = Navigator & { getBattery?: () => Promise<BatteryManager> };
+
+function shiftTier(tier: SamplingTier, steps: number): SamplingTier {
+  const index = Math.min(TIER_ORDER.length - 1, Math.max(0, TIER_ORDER.indexOf(tier) + steps));
+  return TIER_ORDER[index];
+}
+
+export function selectSamplingTier(battery: BatteryStatus, context: SamplingContext): SamplingTier {
+  // Plugged in or unknown battery: nothing to save
+  let tier: SamplingTier = 'full';
+  if (!battery.charging && battery.level !== null) {
+    if (battery.level < CRITICAL_BELOW) tier = 'critical';
+    else if (battery.level < SAVER_BELOW) tier = 'saver';
+    else if (battery.level < BALANCED_BELOW) tier = 'balanced';
+  }
+
+  // Parked at a pickup: little to watch for
+  if (context.stationary) tier = shiftTier(tier, 1);
+  if (context.fast) tier = shiftTier(tier, -1);
+  if (context.elevatedRisk) tier = shiftTier(tier, -1);
+
+  return tier;
+}
+
+export class PowerManager {
+  private battery: BatteryStatus = { level: null, charging: false };
+  private batteryManager: BatteryManager | null = null;
+  private tier: SamplingTier = 'full';
+  private tierSince = 0;
+  private enabled = false;
+  private onBatteryChange: (() => void) | null = null;
+  private readonly handleBatteryEvent = () => {
+    if (!this.batteryManager) return;
+    this.battery = { level: this.batteryManager.level, charging: this.batteryManager.charging };
+    this.onBatteryChange?.();
+  };
+
+  setBatteryChangeHandler(handler: () => void): void {
+    this.onBatteryChange = handler;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Read the Battery Status API on this thread
+  async start(): Promise<void> {
+    this.enabled = true;
+    const nav = typeof navigator !== 'undefined' ? (navigator as NavigatorWithBattery) : null;
+    if (!nav?.getBattery) return;
+
+    try {
+      this.batteryManager = await nav.getBattery();
+      this.batteryManager.addEventListener('levelchange', this.handleBatteryEvent);
+      this.batteryManager.addEventListener('chargingchange', this.handleBatteryEvent);
+      this.handleBatteryEvent();
+    } catch (error) {
+      console.warn('Battery status unavailable:', error);
+    }
+  }
+
+  // Battery readings from elsewhere (the sensor worker has no Battery Status API)
+  setBatteryStatus(status: BatteryStatus): void {
+    this.enabled = true;
+    this.battery = { ...status };
+  }
+
+  stop(): void {
+    this.enabled = false;
+    if (this.batteryManager) {
+      this.batteryManager.removeEventListener('levelchange', this.handleBatteryEvent);
+      this.batteryManager.removeEventListener('chargingchange', this.handleBatteryEvent);
+      this.batteryManager = null;
+    }
+    this.battery = { level: null, charging: false };
+    this.tier = 'full';
+    this.tierSince = 0;
+  }
+
+  getBattery(): BatteryStatus {
+    return { ...this.battery };
+  }
+
+  getTier(): SamplingTier {
+    return this.tier;
+  }
+
+  // Returns the new tier when it changes, null otherwise
+  update(context: SamplingContext, now: number): SamplingTier | null {
+    const next = selectSamplingTier(this.battery, context);
+    if (next === this.tier) return null;
+
+    const downgrade = TIER_ORDER.indexOf(next) > TIER_ORDER.indexOf(this.tier);
+    if (downgrade && now - this.tierSince < TIER_DOWNGRADE_DWELL_MS) return null;
+
+    this.tier = next;
+    this.tierSince = now;
+    return next;
+  }
+}
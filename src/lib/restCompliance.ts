@@ -0,0 +1,72 @@
+// Rest compliance - did a real break follow the advice?
+// Fatigue nudges and weather alerts ask for rest of a given length ("Pull over 60 seconds",
+// "Rest 5 minutes", "Stop for rest and water"). A break is a stationary period from the
+// ride's segments, starting soon after the advice and lasting at least as long as asked.
+// Rest taken during the ride also counts against time-on-bike fatigue.
+// Worker-safe: works on segments only.
+
+import type { FatigueLevel } from './fatigueDetection';
+import type { RideSegment } from './rideSegments';
+import type { WeatherRisk } from './weatherService';
+
+// What each fatigue nudge level asks for; mild nudges only ask the rider to ease off
+export const SUGGESTED_REST_MS: Record<Exclude<FatigueLevel, 'none'>, number> = {
+  mild: 0,
+  moderate: 60 * 1000,
+  severe: 5 * 60 * 1000,
+};
+
+const MIN_BREAK_MS = 60 * 1000; // Shorter than this is traffic, not rest
+const NUDGE_WINDOW_MS = 5 * 60 * 1000; // Time to find somewhere to pull over
+const WEATHER_WINDOW_MS = 10 * 60 * 1000; // Shade or shelter can take longer to reach
+
+// Heat and bad air call for rest; rain and wind only for riding carefully
+export function getWeatherRestMs(risk: WeatherRisk): number {
+  if (risk.type !== 'heat' && risk.type !== 'aqi') return 0;
+  switch (risk.level) {
+    case 'extreme': return 15 * 60 * 1000;
+    case 'danger': return 10 * 60 * 1000;
+    case 'warning': return 5 * 60 * 1000;
+    default: return 0;
+  }
+}
+
+export interface BreakAfter {
+  restMs: number; // time stationary in the break; 0 when the rider ended the ride instead
+  rideEnded: boolean;
+}
+
+// The first stop that starts within the window after `at` and lasts long enough,
+// or null if the rider kept riding. Ending the ride within the window counts as stopping,
+// but the riding up to the end is not rest.
+export function findBreakAfter(
+  at: number,
+  restMs: number,
+  segments: RideSegment[],
+  endTime: number,
+  windowMs = NUDGE_WINDOW_MS
+): BreakAfter | null {
+  const minMs = Math.max(MIN_BREAK_MS, restMs);
+  for (const segment of segments) {
+    if (segment.kind !== 'stopped') continue;
+    const stopEnd = segment.endTime ?? endTime;
+    // Already stopped when advised counts as well: the rider stayed off the bike
+    if (segment.startTime > at + windowMs || stopEnd < at) continue;
+    const taken = stopEnd - Math.max(segment.startTime, at);
+    if (taken >= minMs) return { restMs: taken, rideEnded: false };
+  }
+  return endTime - at <= windowMs ? { restMs: 0, rideEnded: true } : null;
+}
+
+export function findBreakAfterWeatherAlert(at: number, risk: WeatherRisk, segments: RideSegment[], endTime: number): BreakAfter | null {
+  return findBreakAfter(at, getWeatherRestMs(risk), segments, endTime, WEATHER_WINDOW_MS);
+}
+
+// Time stationary in stops of a minute or more, this ride
+export function getRestTakenMs(segments: RideSegment[], now: number): number {
+  return segments
+    .filter(s => s.kind === 'stopped')
+    .map(s => (s.endTime ?? now) - s.startTime)
+    .filter(ms => ms >= MIN_BREAK_MS)
+    .reduce((sum, ms) => sum + ms, 0);
+}
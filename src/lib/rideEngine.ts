@@ -0,0 +1,388 @@
+// Ride engine - the UI's handle on ride processing
+// Risk rules and fatigue detection run in the sensor worker. This side owns the browser
+// sensors and forwards their samples, and does what a worker can't: voice, vibration,
+// the Battery Status API and loading unsafe zones. Falls back to processing on the
+// UI thread where module workers aren't supported.
+
+import { announceRiskEvent, type RideState } from './rideMonitor';
+import { announceFatigueNudge, type FatigueLevel } from './fatigueDetection';
+import {
+  browserSensorSource,
+  toPositionCoords,
+  type MotionSample,
+  type OrientationSample,
+  type SensorSource,
+} from './sensorSource';
+import { IDLE_SNAPSHOT, RideProcessor, type RideCommand, type RideResult, type RideSnapshot } from './rideProcessor';
+import { PowerManager } from './powerManager';
+import type { LocationEstimate } from './gpsHealth';
+import { unsafeZoneCache, type UnsafeZone } from './unsafeZones';
+import { getConfirmedPlaces } from './knownPlaces';
+import { getStopCounts, recordStopVisit } from './rideSegments';
+import { getShiftContext } from './shiftFatigue';
+import { getFatigueBaseline } from './fatigueBaseline';
+import { rideEvents } from './rideEvents';
+import type { VehicleProfile } from './vehicleProfiles';
+import type { SensorWorkerRequest, SensorWorkerResponse } from './sensorWorkerProtocol';
+
+const SAMPLE_BATCH_MS = 100; // Motion is posted in batches, not per event
+const STOP_TIMEOUT_MS = 10000; // A hung worker mustn't keep the ride from ending
+
+type PendingRequest = (response: SensorWorkerResponse | null) => void;
+
+class RideEngine {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private local: RideProcessor | null = null; // UI-thread fallback
+  private source: SensorSource = browserSensorSource;
+  private snapshot: RideSnapshot = IDLE_SNAPSHOT;
+  private profile: VehicleProfile | null = null;
+  private fatigueLevel: FatigueLevel = 'none';
+  private unsubscribeWeather: (() => void) | null = null;
+
+  // Worker plumbing
+  private nextRequestId = 1;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private watches = new Map<number, number>(); // worker watch id -> browser watch id
+  private removeSensorListeners: (() => void)[] = [];
+  private motionBatch: MotionSample[] = [];
+  private orientationBatch: OrientationSample[] = [];
+  private batchTimer: number | null = null;
+  private battery = new PowerManager();
+  private postedZones: UnsafeZone[] | null = null;
+
+  // Swap the sensor source (e.g. to record a trace). Only between rides.
+  setSensorSource(source: SensorSource): void {
+    if (this.isActive()) return;
+    this.source = source;
+  }
+
+  // The clock and sensors rides run on, for UI-thread monitors that time the ride
+  getSensorSource(): SensorSource {
+    return this.source;
+  }
+
+  isActive(): boolean {
+    return this.getSnapshot().isActive;
+  }
+
+  getSnapshot(): RideSnapshot {
+    return this.local ? this.local.getSnapshot() : this.snapshot;
+  }
+
+  getCurrentLocation(): { lat: number; lng: number } | null {
+    return this.getSnapshot().location;
+  }
+
+  // Location with its age and uncertainty - what an emergency should share
+  getLocationEstimate(): LocationEstimate | null {
+    return this.getSnapshot().locationEstimate;
+  }
+
+  async start(profile: VehicleProfile): Promise<boolean> {
+    if (this.isActive()) return true;
+    this.profile = profile;
+    this.fatigueLevel = 'none';
+
+    // Fresh weather feeds fatigue heat stress and the weather-aware risk rules
+    this.unsubscribeWeather?.();
+    this.unsubscribeWeather = rideEvents.on('weather_updated', data => this.run({
+      kind: 'weather',
+      data: {
+        temperature: data.temperature,
+        feelsLike: data.feelsLike,
+        humidity: data.humidity,
+        windSpeed: data.windSpeed,
+        isRaining: data.isRaining,
+      },
+    }));
+
+    const worker = this.getWorker();
+    if (!worker) return this.startLocal(profile);
+
+    let position: GeolocationPosition;
+    try {
+      // Asked for here so the permission prompt comes from the page
+      position = await this.source.getCurrentPosition({
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0,
+      });
+    } catch (error) {
+      console.error('Failed to start monitoring:', error);
+      return false;
+    }
+
+    await this.battery.start();
+    this.battery.setBatteryChangeHandler(() => {
+      this.post({ type: 'battery', status: this.battery.getBattery() });
+    });
+    this.attachSensors();
+
+    const response = await this.request(requestId => ({
+      type: 'start',
+      requestId,
+      profile,
+      position: { timestamp: position.timestamp, coords: toPositionCoords(position) },
+      battery: this.battery.getBattery(),
+      places: getConfirmedPlaces(),
+      stopCounts: getStopCounts(),
+      shift: getShiftContext(),
+      baseline: getFatigueBaseline(profile.id),
+    }));
+
+    if (response?.type !== 'started' || !response.ok) {
+      this.detachSensors();
+      // Worker died on startup - run this ride on the UI thread instead
+      return response === null ? this.startLocal(profile) : false;
+    }
+
+    this.syncZones({ lat: position.coords.latitude, lng: position.coords.longitude });
+    return true;
+  }
+
+  async stop(): Promise<RideResult> {
+    this.unsubscribeWeather?.();
+    this.unsubscribeWeather = null;
+
+    if (this.local) {
+      const result = this.local.stop();
+      this.local = null;
+      return result;
+    }
+
+    const response = await this.request(requestId => ({ type: 'stop', requestId }), STOP_TIMEOUT_MS);
+    this.detachSensors();
+
+    const result = response?.type === 'stopped' ? response.result : null;
+    const fallback = this.snapshotResult();
+    this.snapshot = IDLE_SNAPSHOT;
+    // No reply in time: the worker is hung, so don't hand it the next ride
+    if (response === null && this.worker) this.failWorker();
+    return result ?? fallback;
+  }
+
+  // Weather updates, weather warnings and demo controls
+  run(command: RideCommand): void {
+    if (this.local) {
+      this.local.run(command);
+    } else {
+      this.post({ type: 'command', command });
+    }
+  }
+
+  private startLocal(profile: VehicleProfile): Promise<boolean> {
+    const processor = new RideProcessor(this.source);
+    processor.monitor.setRiskEventHandler(event => rideEvents.emit('risk_detected', event));
+    processor.monitor.setRoadHitHandler(hit => rideEvents.emit('road_hit', hit));
+    processor.monitor.setKnownPlaces(getConfirmedPlaces());
+    processor.monitor.setStopCounts(getStopCounts());
+    processor.monitor.setStopClosedHandler(segment => recordStopVisit(segment.location.lat, segment.location.lng));
+    processor.fatigue.setShiftContext(getShiftContext());
+    processor.fatigue.setFatigueBaseline(getFatigueBaseline(profile.id));
+    processor.fatigue.setFatigueUpdateHandler(() => this.checkFatigueLevel(processor.fatigue.getFatigueLevel()));
+    this.local = processor;
+
+    return processor.start(profile).then(ok => {
+      if (!ok) this.local = null;
+      return ok;
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker) return this.worker;
+    if (this.workerFailed || typeof Worker === 'undefined') return null;
+
+    try {
+      this.worker = new Worker(new URL('./sensorWorker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SensorWorkerResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('Sensor worker failed:', event.message);
+        this.failWorker();
+      };
+      return this.worker;
+    } catch (error) {
+      console.warn('Sensor worker unavailable, processing on the UI thread:', error);
+      this.workerFailed = true;
+      return null;
+    }
+  }
+
+  private failWorker(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+    this.detachSensors();
+    this.pendingRequests.forEach(resolve => resolve(null));
+    this.pendingRequests.clear();
+
+    // Mid-ride: keep protecting the rider from the UI thread
+    if (this.snapshot.isActive && this.profile) {
+      this.snapshot = IDLE_SNAPSHOT;
+      this.startLocal(this.profile);
+    }
+  }
+
+  private post(message: SensorWorkerRequest): void {
+    this.worker?.postMessage(message);
+  }
+
+  // Post a request and wait for the reply with the same id (null if the worker is gone,
+  // or hasn't answered within timeoutMs)
+  private request(
+    build: (requestId: number) => SensorWorkerRequest,
+    timeoutMs?: number
+  ): Promise<SensorWorkerResponse | null> {
+    if (!this.worker) return Promise.resolve(null);
+
+    const requestId = this.nextRequestId++;
+    return new Promise(resolve => {
+      const timer = timeoutMs !== undefined
+        ? window.setTimeout(() => {
+            this.pendingRequests.delete(requestId);
+            resolve(null);
+          }, timeoutMs)
+        : null;
+      this.pendingRequests.set(requestId, response => {
+        if (timer !== null) clearTimeout(timer);
+        resolve(response);
+      });
+      this.post(build(requestId));
+    });
+  }
+
+  private handleMessage(message: SensorWorkerResponse): void {
+    switch (message.type) {
+      case 'started':
+      case 'stopped': {
+        const resolve = this.pendingRequests.get(message.requestId);
+        this.pendingRequests.delete(message.requestId);
+        resolve?.(message);
+        break;
+      }
+      case 'watch_position':
+        this.watchPosition(message.watchId, message.options);
+        break;
+      case 'clear_watch': {
+        const browserId = this.watches.get(message.watchId);
+        if (browserId !== undefined) this.source.clearWatch(browserId);
+        this.watches.delete(message.watchId);
+        break;
+      }
+      case 'snapshot':
+        this.snapshot = message.snapshot;
+        if (message.snapshot.location) this.syncZones(message.snapshot.location);
+        this.checkFatigueLevel(message.snapshot.fatigueLevel);
+        break;
+      case 'risk_event':
+        rideEvents.emit('risk_detected', message.event);
+        break;
+      case 'alert':
+        announceRiskEvent(message.event);
+        break;
+      case 'nudge':
+        announceFatigueNudge(message.level, message.vibrate);
+        break;
+      case 'road_hit':
+        rideEvents.emit('road_hit', message.hit);
+        break;
+      case 'stop_closed':
+        recordStopVisit(message.segment.location.lat, message.segment.location.lng);
+        break;
+    }
+  }
+
+  private checkFatigueLevel(level: FatigueLevel): void {
+    if (level === this.fatigueLevel) return;
+    const previous = this.fatigueLevel;
+    this.fatigueLevel = level;
+    rideEvents.emit('fatigue_changed', { level, previous, timestamp: Date.now() });
+  }
+
+  private watchPosition(watchId: number, options?: PositionOptions): void {
+    const existing = this.watches.get(watchId);
+    if (existing !== undefined) this.source.clearWatch(existing);
+
+    const browserId = this.source.watchPosition(
+      position => this.post({
+        type: 'position',
+        watchId,
+        position: { timestamp: position.timestamp, coords: toPositionCoords(position) },
+      }),
+      error => this.post({ type: 'position_error', watchId, code: error.code, message: error.message }),
+      options
+    );
+    this.watches.set(watchId, browserId);
+  }
+
+  private attachSensors(): void {
+    this.removeSensorListeners = [
+      this.source.addMotionListener(sample => this.motionBatch.push(sample)),
+      this.source.addOrientationListener(sample => this.orientationBatch.push(sample)),
+    ];
+    this.batchTimer = this.source.setInterval(() => this.flushSamples(), SAMPLE_BATCH_MS);
+  }
+
+  private flushSamples(): void {
+    if (this.motionBatch.length === 0 && this.orientationBatch.length === 0) return;
+    this.post({ type: 'samples', motion: this.motionBatch, orientation: this.orientationBatch });
+    this.motionBatch = [];
+    this.orientationBatch = [];
+  }
+
+  private detachSensors(): void {
+    this.removeSensorListeners.forEach(remove => remove());
+    this.removeSensorListeners = [];
+    if (this.batchTimer !== null) {
+      this.source.clearInterval(this.batchTimer);
+      this.batchTimer = null;
+    }
+    this.motionBatch = [];
+    this.orientationBatch = [];
+
+    this.watches.forEach(browserId => this.source.clearWatch(browserId));
+    this.watches.clear();
+    this.battery.stop();
+    this.postedZones = null;
+  }
+
+  // Zones come from Supabase, which only the UI thread talks to
+  private syncZones(location: { lat: number; lng: number }): void {
+    const postIfChanged = () => {
+      const zones = unsafeZoneCache.getZones();
+      if (zones === this.postedZones) return;
+      this.postedZones = zones;
+      this.post({ type: 'zones', zones });
+    };
+
+    postIfChanged();
+    unsafeZoneCache.preload(location).then(postIfChanged);
+  }
+
+  // What we know of the ride if the worker died or hung before it could hand back its result.
+  // Snapshots carry no track, segments or fatigue scores, so the result is marked partial.
+  private snapshotResult(): RideResult {
+    const s = this.snapshot;
+    const ride: RideState = {
+      isActive: s.isActive,
+      startTime: s.startTime,
+      lastPosition: null,
+      lastSpeed: s.lastSpeed,
+      idleTime: s.currentStop?.durationMs ?? 0,
+      distanceTraveled: s.distanceTraveled,
+      riskEvents: s.riskEvents,
+      track: [],
+      segments: [],
+      activeRidingMs: s.activeRidingMs,
+    };
+    return {
+      ride,
+      fatigueMetrics: { accelerationVariance: 0, timeOnRide: s.activeRidingMs / 60000, fatigueScore: 0, peakFatigueScore: 0, heatExposureMinutes: 0, microSleepEvents: 0 },
+      fatigueBaseline: null,
+      fatigueTimeline: null,
+      partial: true,
+    };
+  }
+}
+
+export const rideEngine = new RideEngine();
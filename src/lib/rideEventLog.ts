@@ -0,0 +1,40 @@
+// Ride event log - persists ride events to offline-first storage
+// Subscribes to the ride event bus, so the ride screen doesn't save each event itself
+
+import { rideEvents } from './rideEvents';
+import { resolveEmergency, saveRiskEvent, saveWellnessCheck } from './offlineStorage';
+import { recordRoadHit } from './roadReports';
+import { learnKnownPlaces } from './knownPlaces';
+import { recordShiftRide } from './shiftFatigue';
+import { saveFatigueBaseline } from './fatigueBaseline';
+
+// Returns a function that stops logging
+export function startRideEventLog(): () => void {
+  let sessionId: string | null = null;
+
+  const unsubscribers = [
+    rideEvents.on('ride_started', event => {
+      sessionId = event.sessionId;
+    }),
+    rideEvents.on('ride_ended', ({ ride, fatigueMetrics, fatigueBaseline, timestamp }) => {
+      sessionId = null;
+      recordShiftRide(ride, fatigueMetrics, timestamp);
+      if (fatigueBaseline) saveFatigueBaseline(fatigueBaseline);
+      learnKnownPlaces(ride.segments);
+    }),
+    rideEvents.on('risk_alerted', ({ event }) => {
+      if (sessionId) saveRiskEvent(sessionId, event);
+    }),
+    rideEvents.on('wellness_check', check => {
+      if (sessionId) saveWellnessCheck(sessionId, check);
+    }),
+    rideEvents.on('road_hit', hit => {
+      recordRoadHit(hit);
+    }),
+    rideEvents.on('emergency_resolved', ({ eventId, resolution }) => {
+      if (eventId) resolveEmergency(eventId, resolution);
+    }),
+  ];
+
+  return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+}
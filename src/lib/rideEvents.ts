@@ -0,0 +1,103 @@
+// Ride event bus - typed pub/sub for everything that happens during a ride
+// Detectors, weather and the ride screen publish here; storage, credits, voice and UI
+// each subscribe on their own instead of sharing one callback slot.
+
+import type { RideState, RiskEvent } from './rideMonitor';
+import type { RideResult } from './rideProcessor';
+import type { FatigueLevel } from './fatigueDetection';
+import type { WeatherData, WeatherRisk } from './weatherService';
+import type { ScoredRiskEvent } from './confidenceScoring';
+import type { ConfirmationResult } from './voiceConfirmation';
+import type { EmergencyLocation, EmergencyTriggerType } from './offlineStorage';
+import type { VehicleType } from './vehicleProfiles';
+import type { RoadHit } from './roadQuality';
+import type { WellnessCheck } from './wellnessCheck';
+import type { DeadMansSwitchEvent } from './deadMansSwitch';
+import type { ShiftLimitEvent } from './shiftFatigue';
+import type { HeatStressEvent } from './heatStress';
+
+type Location = { lat: number; lng: number };
+
+export interface RideEventMap {
+  // Lifecycle
+  ride_started: {
+    sessionId: string | null;
+    vehicleType: VehicleType;
+    location: Location | null;
+    weather: WeatherData | null; // cached conditions at the start
+    timestamp: number;
+  };
+  ride_ended: {
+    sessionId: string | null;
+    ride: RideState;
+    fatigueMetrics: RideResult['fatigueMetrics'];
+    fatigueBaseline: RideResult['fatigueBaseline'];
+    fatigueTimeline: RideResult['fatigueTimeline'];
+    timestamp: number;
+  };
+
+  // Risk: every detection, then the ones that passed confidence scoring and reached the rider
+  risk_detected: RiskEvent;
+  risk_alerted: { event: RiskEvent; confidence: number | null }; // null for unscored telemetry
+
+  fatigue_changed: { level: FatigueLevel; previous: FatigueLevel; timestamp: number };
+
+  // Riding time across today's rides is nearing, or has reached, the daily cap
+  shift_limit: ShiftLimitEvent;
+
+  // WBGT work/rest cycle: a break is due, started, cut short or done; or time to drink
+  heat_stress: HeatStressEvent;
+
+  // Scheduled "how are you feeling?" check-in, answered, refused or missed
+  wellness_check: WellnessCheck;
+
+  // Night riding dead-man's switch: armed, asking, answered or missed (which requests an emergency)
+  dead_mans_switch: DeadMansSwitchEvent;
+
+  // Pothole, speed breaker or rough patch felt under the wheels - mapped, not alerted
+  road_hit: RoadHit;
+
+  weather_updated: WeatherData;
+  weather_alert: { risk: WeatherRisk; weather: WeatherData };
+
+  // Rider's answer to an "are you OK?" prompt
+  confirmation_resolved: { event: ScoredRiskEvent; result: ConfirmationResult; responseTimeMs: number };
+
+  // Requested by a detector (e.g. no response after a crash), then raised and closed by the ride screen
+  emergency_requested: { triggerType: EmergencyTriggerType };
+  emergency_triggered: { triggerType: EmergencyTriggerType; eventId: string | null; location: EmergencyLocation | null };
+  emergency_resolved: { eventId: string | null; resolution: 'false_alarm' | 'resolved' };
+}
+
+export type RideEventType = keyof RideEventMap;
+export type RideEventListener<K extends RideEventType> = (payload: RideEventMap[K]) => void;
+
+export class RideEventBus {
+  // Keyed by type, so each set only ever holds listeners for that type's payload
+  private listeners = new Map<RideEventType, Set<RideEventListener<RideEventType>>>();
+
+  // Returns an unsubscribe function
+  on<K extends RideEventType>(type: K, listener: RideEventListener<K>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    const entry = listener as RideEventListener<RideEventType>;
+    set.add(entry);
+    return () => set.delete(entry);
+  }
+
+  emit<K extends RideEventType>(type: K, payload: RideEventMap[K]): void {
+    this.listeners.get(type)?.forEach(listener => {
+      // One failing subscriber mustn't stop the others (e.g. storage blocking the emergency UI)
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Ride event listener failed for ${type}:`, error);
+      }
+    });
+  }
+}
+
+export const rideEvents = new RideEventBus();
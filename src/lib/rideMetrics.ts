@@ -0,0 +1,126 @@
+// Ride metrics - per-ride counts behind the safety score
+// Built from the ride event bus: alerts, confirmations, emergencies and weather.
+// Fatigue nudges and weather alerts that ask for rest count as heeded only if the
+// ride's stops show a real break of the asked length, checked when the ride ends.
+
+import { rideEvents } from './rideEvents';
+import type { WeatherData, WeatherRisk } from './weatherService';
+import { findBreakAfterWeatherAlert, getWeatherRestMs, SUGGESTED_REST_MS } from './restCompliance';
+import { markNudgeOutcomes } from './fatigueTimeline';
+
+export interface RideMetrics {
+  speedViolations: number;
+  warningsAcknowledged: number;
+  totalWarnings: number;
+  harshWeatherMinutes: number;
+  weatherAlertsHeeded: number;
+  harshBrakingEvents: number;
+  harshAccelerationEvents: number;
+  sharpCorneringEvents: number;
+}
+
+function emptyMetrics(): RideMetrics {
+  return {
+    speedViolations: 0,
+    warningsAcknowledged: 0,
+    totalWarnings: 0,
+    harshWeatherMinutes: 0,
+    weatherAlertsHeeded: 0,
+    harshBrakingEvents: 0,
+    harshAccelerationEvents: 0,
+    sharpCorneringEvents: 0,
+  };
+}
+
+function isHarshWeather(weather: WeatherData): boolean {
+  return weather.feelsLike >= 35 || weather.isRaining || weather.windSpeed >= 30;
+}
+
+export class RideMetricsTracker {
+  private metrics = emptyMetrics();
+  private isActive = false;
+  private harshWeatherSince: number | null = null; // Start of the current harsh-weather stretch
+  private restAlerts: { risk: WeatherRisk; at: number }[] = []; // Weather alerts that asked for rest
+
+  // Returns a function that stops tracking
+  attach(): () => void {
+    const unsubscribers = [
+      rideEvents.on('ride_started', ({ weather, timestamp }) => {
+        this.metrics = emptyMetrics();
+        this.isActive = true;
+        this.harshWeatherSince = null;
+        this.restAlerts = [];
+        if (weather) this.observeWeather(weather, timestamp);
+      }),
+      rideEvents.on('ride_ended', ({ ride, fatigueTimeline, timestamp }) => {
+        this.closeHarshWeather(timestamp);
+        this.isActive = false;
+
+        this.metrics.weatherAlertsHeeded += this.restAlerts
+          .filter(alert => findBreakAfterWeatherAlert(alert.at, alert.risk, ride.segments, timestamp) !== null)
+          .length;
+
+        // Nudges that asked the rider to pull over are warnings; a break of the asked length, or ending the ride, acknowledges them
+        if (fatigueTimeline) {
+          const restNudges = markNudgeOutcomes(fatigueTimeline, ride.segments, timestamp).nudges
+            .filter(nudge => SUGGESTED_REST_MS[nudge.level] > 0);
+          this.metrics.totalWarnings += restNudges.length;
+          this.metrics.warningsAcknowledged += restNudges.filter(nudge => nudge.stoppedAfter).length;
+        }
+      }),
+      rideEvents.on('weather_updated', weather => {
+        if (this.isActive) this.observeWeather(weather, Date.now());
+      }),
+      rideEvents.on('risk_alerted', ({ event }) => {
+        switch (event.type) {
+          // Harsh driving is telemetry for the score, not a warning
+          case 'harsh_braking':
+            this.metrics.harshBrakingEvents++;
+            return;
+          case 'harsh_acceleration':
+            this.metrics.harshAccelerationEvents++;
+            return;
+          case 'sharp_cornering':
+            this.metrics.sharpCorneringEvents++;
+            return;
+          case 'speed_warning':
+            this.metrics.speedViolations++;
+            break;
+        }
+        this.metrics.totalWarnings++;
+      }),
+      rideEvents.on('confirmation_resolved', ({ result }) => {
+        if (result === 'ok' || result === 'cancelled') this.metrics.warningsAcknowledged++;
+      }),
+      rideEvents.on('emergency_resolved', ({ resolution }) => {
+        if (resolution === 'false_alarm') this.metrics.warningsAcknowledged++;
+      }),
+      rideEvents.on('weather_alert', ({ risk }) => {
+        if (this.isActive && getWeatherRestMs(risk) > 0) this.restAlerts.push({ risk, at: Date.now() });
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+
+  // Metrics so far, counting a harsh-weather stretch that is still going
+  getMetrics(now = Date.now()): RideMetrics {
+    const openMinutes = this.isActive && this.harshWeatherSince !== null
+      ? (now - this.harshWeatherSince) / 60000
+      : 0;
+    return { ...this.metrics, harshWeatherMinutes: this.metrics.harshWeatherMinutes + openMinutes };
+  }
+
+  private observeWeather(weather: WeatherData, now: number): void {
+    this.closeHarshWeather(now);
+    this.harshWeatherSince = isHarshWeather(weather) ? now : null;
+  }
+
+  private closeHarshWeather(now: number): void {
+    if (this.harshWeatherSince === null) return;
+    this.metrics.harshWeatherMinutes += Math.max(0, now - this.harshWeatherSince) / 60000;
+    this.harshWeatherSince = null;
+  }
+}
+
+export const rideMetrics = new RideMetricsTracker();
@@ -2,19 +2,45 @@
 // Local-first processing for low network conditions
 
 import { speak, vibrateAlert, vibrateEmergency } from './voiceOutput';
+import { browserSensorSource, type SensorSource } from './sensorSource';
+import { PositionFilter, STATIONARY_SPEED_KMH, haversineDistance, type FilteredFix } from './positionFilter';
+import { BREADCRUMB_MAX_INTERVAL_MS, BREADCRUMB_MIN_DISTANCE_M, type TrackPoint } from './routeTrack';
+import { CrashDetector, type CrashEvidence } from './crashDetection';
+import { getVehicleProfile, type VehicleProfile } from './vehicleProfiles';
+import { unsafeZoneCache, ZoneProximityTracker, type UnsafeZoneRiskType } from './unsafeZones';
+import { DrivingEventDetector, DRIVING_MOTION_FEATURES, type DrivingEvent } from './drivingEvents';
+import { RideSegmenter, type CurrentStop, type RideSegment } from './rideSegments';
+import { getSensorHub, type FeatureSubscription } from './sensorHub';
+import { GpsHealthTracker, type GpsHealth, type LocationEstimate } from './gpsHealth';
+import { RoadQualityDetector, ROAD_ROUGHNESS_FEATURES, type RoadHit } from './roadQuality';
+import { findKnownPlace, getIdleAllowanceMs, type KnownPlace, type KnownPlaceType } from './knownPlaces';
+import { PowerManager, SAMPLING_TIERS, type BatteryStatus, type SamplingTier } from './powerManager';
+import {
+  getRiskDetectorPlugins,
+  getRiskVoiceKey,
+  type RiskDetector,
+  type RiskDetectorContext,
+  type RiskDetectorInstance,
+} from './riskDetectors';
 
 export interface RideState {
   isActive: boolean;
   startTime: number | null;
   lastPosition: GeolocationPosition | null;
   lastSpeed: number;
-  idleTime: number;
+  idleTime: number; // length of the current stop
   distanceTraveled: number;
   riskEvents: RiskEvent[];
+  track: TrackPoint[]; // Breadcrumbs of the smoothed route
+  segments: RideSegment[]; // Riding legs and stops, filled in when the ride stops
+  activeRidingMs: number; // Time spent riding, excluding stops
 }
 
+// Types the monitor raises itself; detector plugins add their own (see riskDetectors.ts)
+export type BuiltinRiskEventType = 'speed_warning' | 'heat_warning' | 'unsafe_zone' | 'sudden_stop' | 'fall_detected' | 'crash_detected' | 'harsh_braking' | 'harsh_acceleration' | 'sharp_cornering' | 'long_idle' | 'wellness_check' | 'rain_warning' | 'extreme_weather' | 'high_wind';
+
 export interface RiskEvent {
-  type: 'speed_warning' | 'heat_warning' | 'unsafe_zone' | 'sudden_stop' | 'fall_detected' | 'long_idle' | 'wellness_check' | 'rain_warning' | 'extreme_weather' | 'high_wind';
+  type: BuiltinRiskEventType | (string & {});
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: number;
   location?: { lat: number; lng: number };
@@ -26,15 +52,42 @@ export interface RiskEvent {
     windSpeed: number;
     isRaining: boolean;
   };
+  crashData?: CrashEvidence;
+  zone?: {
+    id: string;
+    riskType: UnsafeZoneRiskType;
+    center: { lat: number; lng: number };
+    distanceMeters: number; // from the zone edge, 0 when inside
+    inside: boolean;
+  };
+  place?: {
+    id: string;
+    name: string;
+    type: KnownPlaceType;
+  };
 }
 
-// Thresholds for risk detection
-const SPEED_THRESHOLD_KMH = 60; // Warn above this speed
-const IDLE_WARNING_MS = 5 * 60 * 1000; // 5 minutes idle
-const SUDDEN_STOP_THRESHOLD = 20; // km/h drop in 1 second
-const HEAT_INDEX_THRESHOLD = 35; // Celsius
+export type RideWeatherData = NonNullable<RiskEvent['weatherData']>;
+
+// Thresholds for risk detection (speed, braking, impact and idle come from the vehicle profile)
+const SUDDEN_STOP_WINDOW_MS = 3000;
+const RECURRING_STOP_IDLE_FACTOR = 3; // Known pickup/drop-off spots get longer before an idle check
+const ELEVATED_RISK_WINDOW_MS = 2 * 60 * 1000; // A serious event keeps sampling up for this long
+const FAST_SPEED_FACTOR = 0.8; // Fraction of the speed threshold that counts as fast
+const GPS_MOTION_FEATURES: FeatureSubscription = { channel: 'magnitude', windowMs: 3000, everyMs: 1000 };
+const MOVING_VIBRATION_STD = 0.5; // m/s² - riding vibration, as in auto start
+
+// Voice and vibration for a risk event. Muted monitors (sensor worker) leave this to the UI thread.
+export function announceRiskEvent(event: RiskEvent): void {
+  speak(event.zone ? `unsafe_zone_${event.zone.riskType}` : getRiskVoiceKey(event.type));
+  if (event.severity === 'critical') {
+    vibrateEmergency();
+  } else {
+    vibrateAlert();
+  }
+}
 
-class RideMonitor {
+export class RideMonitor {
   private state: RideState = {
     isActive: false,
     startTime: null,
@@ -43,24 +96,104 @@ class RideMonitor {
     idleTime: 0,
     distanceTraveled: 0,
     riskEvents: [],
+    track: [],
+    segments: [],
+    activeRidingMs: 0,
   };
   
   private watchId: number | null = null;
   private idleCheckInterval: number | null = null;
-  private lastUpdateTime: number = 0;
+  private positionFilter = new PositionFilter();
+  private recentSpeeds: { timestamp: number; speedKmh: number }[] = [];
   private onRiskEvent: ((event: RiskEvent) => void) | null = null;
-  private onEmergency: (() => void) | null = null;
-  private motionHandler: ((e: DeviceMotionEvent) => void) | null = null;
+  private onAlert: ((event: RiskEvent) => void) | null = null;
+  private onRoadHit: ((hit: RoadHit) => void) | null = null;
+  private removeMotionListener: (() => void) | null = null;
+  private removeDrivingMotionListener: (() => void) | null = null;
+  private removeOrientationListener: (() => void) | null = null;
+  private removeGpsMotionListener: (() => void) | null = null;
+  private removeRoadMotionListeners: (() => void)[] = [];
+  
+  // Impact + speed drop + orientation + stillness -> crash/fall assessment
+  private crashDetector = new CrashDetector(this.handleCrashAssessment.bind(this));
+  private profile: VehicleProfile = getVehicleProfile();
+  private zoneTracker = new ZoneProximityTracker();
+  private drivingEvents = new DrivingEventDetector(this.handleDrivingEvent.bind(this));
+  private segmenter = new RideSegmenter();
+  private power = new PowerManager();
+  private gps = new GpsHealthTracker(); // Signal health, and dead reckoning while it's lost
+  private roadQuality = new RoadQualityDetector(hit => this.onRoadHit?.(hit));
+  private lastDrivingMotionTime = 0;
+  private plugins: RiskDetectorInstance[] = []; // Registered detector plugins, this ride
+  private removePluginListeners: (() => void)[] = [];
+  private weather: RideWeatherData | null = null;
+  private knownPlaces: KnownPlace[] = [];
+  private stopCounts: Record<string, number> = {};
+  private onStopClosed: ((segment: RideSegment) => void) | null = null;
   
-  // Accelerometer data for fall detection
-  private lastAcceleration: { x: number; y: number; z: number } = { x: 0, y: 0, z: 0 };
+  // muted: skip voice, vibration, zone preloading and the Battery API
+  // (used when replaying recorded rides, and inside the sensor worker)
+  constructor(
+    private source: SensorSource = browserSensorSource,
+    private muted = false
+  ) {}
+  
+  // Swap the sensor source (e.g. to record a trace). Only between rides.
+  setSensorSource(source: SensorSource): void {
+    if (this.state.isActive) return;
+    this.source = source;
+  }
+  
+  // Apply per-vehicle thresholds. Takes effect immediately, even mid-ride.
+  setVehicleProfile(profile: VehicleProfile): void {
+    this.profile = profile;
+    this.crashDetector.setImpactThreshold(profile.fallImpactG);
+    this.roadQuality.setCrashImpactThreshold(profile.fallImpactG);
+  }
+  
+  getVehicleProfile(): VehicleProfile {
+    return this.profile;
+  }
   
   setRiskEventHandler(handler: (event: RiskEvent) => void): void {
     this.onRiskEvent = handler;
   }
   
-  setEmergencyHandler(handler: () => void): void {
-    this.onEmergency = handler;
+  // Muted monitors only: called where the monitor would have spoken or vibrated
+  setAlertHandler(handler: (event: RiskEvent) => void): void {
+    this.onAlert = handler;
+  }
+  
+  // Potholes, speed breakers and rough patches felt on this ride (crowdsourced, not alerted)
+  setRoadHitHandler(handler: (hit: RoadHit) => void): void {
+    this.onRoadHit = handler;
+  }
+  
+  // Home, hubs and pickup points from the UI thread; idle checks depend on them
+  setKnownPlaces(places: KnownPlace[]): void {
+    this.knownPlaces = places;
+  }
+  
+  // Visits per stop location from the UI thread; recurring stops depend on them
+  setStopCounts(counts: Record<string, number>): void {
+    this.stopCounts = counts;
+  }
+  
+  // Each stop as it ends, for the UI thread to remember. Replays leave this unset.
+  setStopClosedHandler(handler: (segment: RideSegment) => void): void {
+    this.onStopClosed = handler;
+  }
+  
+  // Latest conditions from the weather service, for detector plugins
+  setWeather(weather: RideWeatherData): void {
+    this.weather = weather;
+    this.runPlugins(plugin => plugin.onWeather?.(weather));
+  }
+  
+  // Battery readings pushed in from the UI thread; turns on battery-aware sampling for muted monitors
+  setBatteryStatus(status: BatteryStatus): void {
+    this.power.setBatteryStatus(status);
+    this.updateSamplingTier();
   }
   
   async startMonitoring(): Promise<boolean> {
@@ -68,44 +201,68 @@ class RideMonitor {
     
     try {
       // Request location permission
-      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
-        navigator.geolocation.getCurrentPosition(resolve, reject, {
-          enableHighAccuracy: true,
-          timeout: 10000,
-          maximumAge: 0,
-        });
+      const position = await this.source.getCurrentPosition({
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 0,
       });
       
       this.state = {
         isActive: true,
-        startTime: Date.now(),
+        startTime: this.source.now(),
         lastPosition: position,
         lastSpeed: 0,
         idleTime: 0,
         distanceTraveled: 0,
         riskEvents: [],
+        track: [],
+        segments: [],
+        activeRidingMs: 0,
       };
       
-      this.lastUpdateTime = Date.now();
+      this.positionFilter.reset();
+      this.gps.reset();
+      const firstFix = this.positionFilter.update(position);
+      if (firstFix) {
+        this.recordBreadcrumb(firstFix);
+        this.gps.addFix(firstFix);
+      }
+      this.recentSpeeds = [];
+      this.crashDetector.reset();
+      this.zoneTracker.reset();
+      this.drivingEvents.reset();
+      this.roadQuality.reset();
+      this.segmenter.start(
+        this.state.startTime!,
+        { lat: position.coords.latitude, lng: position.coords.longitude },
+        this.stopCounts,
+        segment => this.onStopClosed?.(segment)
+      );
+      
+      // Preload nearby unsafe zones (cached offline, no need to wait)
+      if (!this.muted) {
+        unsafeZoneCache.preload({ lat: position.coords.latitude, lng: position.coords.longitude });
+      }
+      
+      // Battery-aware sampling. Replays have no battery, so they stay at full rate;
+      // the sensor worker gets battery readings through setBatteryStatus.
+      this.lastDrivingMotionTime = 0;
+      if (!this.muted) {
+        this.power.setBatteryChangeHandler(() => this.updateSamplingTier());
+        this.power.start();
+      }
       
       // Start continuous location watching
-      this.watchId = navigator.geolocation.watchPosition(
-        this.handlePositionUpdate.bind(this),
-        this.handlePositionError.bind(this),
-        {
-          enableHighAccuracy: true,
-          timeout: 5000,
-          maximumAge: 1000,
-        }
-      );
+      this.startLocationWatch();
       
       // Start idle check interval
-      this.idleCheckInterval = window.setInterval(() => {
+      this.idleCheckInterval = this.source.setInterval(() => {
         this.checkIdle();
       }, 30000); // Check every 30 seconds
       
-      // Start motion detection for fall detection
+      // Start motion detection for crash/fall and harsh driving detection
       this.startMotionDetection();
+      this.startPlugins();
       
       return true;
     } catch (error) {
@@ -115,19 +272,28 @@ class RideMonitor {
   }
   
   stopMonitoring(): RideState {
+    const now = this.source.now();
     const finalState = { ...this.state };
+    if (this.state.isActive) {
+      finalState.activeRidingMs = this.segmenter.getActiveRidingMs(now);
+      finalState.segments = this.segmenter.finish(now);
+    }
     
     if (this.watchId !== null) {
-      navigator.geolocation.clearWatch(this.watchId);
+      this.source.clearWatch(this.watchId);
       this.watchId = null;
     }
     
+    this.power.stop();
+    
     if (this.idleCheckInterval !== null) {
-      clearInterval(this.idleCheckInterval);
+      this.source.clearInterval(this.idleCheckInterval);
       this.idleCheckInterval = null;
     }
     
     this.stopMotionDetection();
+    this.stopPlugins();
+    this.positionFilter.reset();
     
     this.state = {
       isActive: false,
@@ -137,176 +303,332 @@ class RideMonitor {
       idleTime: 0,
       distanceTraveled: 0,
       riskEvents: [],
+      track: [],
+      segments: [],
+      activeRidingMs: 0,
     };
     
     return finalState;
   }
   
+  private startLocationWatch(): void {
+    if (this.watchId !== null) {
+      this.source.clearWatch(this.watchId);
+    }
+    this.watchId = this.source.watchPosition(
+      this.handlePositionUpdate.bind(this),
+      this.handlePositionError.bind(this),
+      SAMPLING_TIERS[this.power.getTier()].gps
+    );
+  }
+  
+  // Re-pick the sampling tier from battery, speed and risk; re-arm GPS when it changes
+  private updateSamplingTier(): void {
+    if (!this.state.isActive || !this.power.isEnabled()) return;
+    
+    const now = this.source.now();
+    const elevatedRisk = this.crashDetector.getPhase() !== 'monitoring' || this.state.riskEvents.some(
+      e => (e.severity === 'high' || e.severity === 'critical') && now - e.timestamp < ELEVATED_RISK_WINDOW_MS
+    );
+    const tier = this.power.update({
+      stationary: this.state.lastSpeed < STATIONARY_SPEED_KMH,
+      fast: this.state.lastSpeed >= this.profile.speedThresholdKmh * FAST_SPEED_FACTOR,
+      elevatedRisk,
+    }, now);
+    
+    if (tier) {
+      this.startLocationWatch();
+    }
+  }
+  
   private handlePositionUpdate(position: GeolocationPosition): void {
-    const now = Date.now();
-    const timeDelta = (now - this.lastUpdateTime) / 1000; // seconds
-    
-    if (this.state.lastPosition && timeDelta > 0) {
-      // Calculate speed
-      const distance = this.calculateDistance(
-        this.state.lastPosition.coords.latitude,
-        this.state.lastPosition.coords.longitude,
-        position.coords.latitude,
-        position.coords.longitude
-      );
-      
-      const speedKmh = (distance / timeDelta) * 3.6; // m/s to km/h
-      
-      // Check for sudden stop (potential crash)
-      if (this.state.lastSpeed > 20 && speedKmh < 2) {
-        const speedDrop = this.state.lastSpeed - speedKmh;
-        if (speedDrop > SUDDEN_STOP_THRESHOLD) {
-          this.triggerRiskEvent({
-            type: 'sudden_stop',
-            severity: 'high',
-            timestamp: now,
-            location: { lat: position.coords.latitude, lng: position.coords.longitude },
-          });
-        }
-      }
-      
-      // Check for excessive speed
-      if (speedKmh > SPEED_THRESHOLD_KMH) {
+    const now = this.source.now();
+    
+    // Accuracy gating + smoothing; rejected fixes never reach the risk rules
+    const fix = this.positionFilter.update(position);
+    if (!fix) {
+      this.gps.addRejectedFix(now);
+      return;
+    }
+    this.gps.addFix(fix);
+    
+    const speedKmh = fix.speedKmh;
+    const location = { lat: fix.lat, lng: fix.lng };
+    
+    // Peak speed over the last few seconds, so a smoothed drop still registers
+    this.recentSpeeds = this.recentSpeeds.filter(s => fix.timestamp - s.timestamp <= SUDDEN_STOP_WINDOW_MS);
+    const peakRecentSpeed = this.recentSpeeds.reduce((max, s) => Math.max(max, s.speedKmh), 0);
+    this.recentSpeeds.push({ timestamp: fix.timestamp, speedKmh });
+    this.crashDetector.addSpeed(fix.timestamp, speedKmh);
+    this.drivingEvents.addFix(fix);
+    this.roadQuality.addFix(fix);
+    
+    // Check for sudden stop (potential crash)
+    if (peakRecentSpeed > this.profile.suddenStopThresholdKmh && speedKmh < STATIONARY_SPEED_KMH) {
+      const speedDrop = peakRecentSpeed - speedKmh;
+      if (speedDrop > this.profile.suddenStopThresholdKmh) {
         this.triggerRiskEvent({
-          type: 'speed_warning',
-          severity: 'medium',
+          type: 'sudden_stop',
+          severity: 'high',
           timestamp: now,
-          location: { lat: position.coords.latitude, lng: position.coords.longitude },
+          location,
         });
       }
-      
-      this.state.lastSpeed = speedKmh;
-      this.state.distanceTraveled += distance;
-      
-      // Reset idle time if moving
-      if (speedKmh > 2) {
-        this.state.idleTime = 0;
-      }
     }
     
+    // Check for excessive speed
+    if (speedKmh > this.profile.speedThresholdKmh) {
+      this.triggerRiskEvent({
+        type: 'speed_warning',
+        severity: 'medium',
+        timestamp: now,
+        location,
+      });
+    }
+    
+    this.state.lastSpeed = speedKmh;
+    this.state.distanceTraveled += fix.distanceDelta;
+    this.recordBreadcrumb(fix);
+    this.segmenter.update(now, location, speedKmh, fix.distanceDelta);
+    this.checkUnsafeZones(location, now);
+    this.runPlugins(plugin => plugin.onFix?.(fix));
+    
     this.state.lastPosition = position;
-    this.lastUpdateTime = now;
+  }
+  
+  private checkUnsafeZones(location: { lat: number; lng: number }, now: number): void {
+    // Refresh the preload once the rider leaves the covered area
+    if (!this.muted) unsafeZoneCache.preload(location);
+    
+    // Every zone marked alerted gets its warning, closest first
+    for (const { zone, distanceMeters, inside } of this.zoneTracker.update(location, unsafeZoneCache.getZones())) {
+      this.triggerRiskEvent({
+        type: 'unsafe_zone',
+        severity: zone.severity,
+        timestamp: now,
+        location, // Where the rider was warned; the zone's centre is in the details
+        message: inside
+          ? `Inside ${zone.risk_type.replace(/_/g, ' ')} zone`
+          : `${zone.risk_type.replace(/_/g, ' ')} zone in ${distanceMeters} m`,
+        zone: {
+          id: zone.id,
+          riskType: zone.risk_type,
+          center: zone.location,
+          distanceMeters,
+          inside,
+        },
+      });
+    }
+  }
+  
+  // Keep a point every few metres of movement, and at least every 30s while stopped
+  private recordBreadcrumb(fix: FilteredFix): void {
+    const last = this.state.track[this.state.track.length - 1];
+    if (last) {
+      const moved = haversineDistance(last.lat, last.lng, fix.lat, fix.lng);
+      if (moved < BREADCRUMB_MIN_DISTANCE_M && fix.timestamp - last.timestamp < BREADCRUMB_MAX_INTERVAL_MS) {
+        return;
+      }
+    }
+    this.state.track.push({ lat: fix.lat, lng: fix.lng, timestamp: fix.timestamp });
   }
   
   private handlePositionError(error: GeolocationPositionError): void {
     console.warn('Geolocation error:', error.message);
-    // Continue monitoring even with GPS errors - fail gracefully
+    // Continue monitoring even with GPS errors - fail gracefully, and say how stale the location is
+    this.gps.addError(error.code);
   }
   
   private checkIdle(): void {
     if (!this.state.isActive) return;
     
-    const now = Date.now();
-    const timeSinceUpdate = now - this.lastUpdateTime;
+    const now = this.source.now();
+    this.segmenter.tick(now);
+    this.updateSamplingTier();
+    this.runPlugins(plugin => plugin.onTick?.());
+    
+    // Idle = length of the current stop, not time since the last GPS fix
+    const stop = this.segmenter.getCurrentStop(now);
+    this.state.idleTime = stop ? stop.durationMs : 0;
+    if (!stop) return;
     
-    this.state.idleTime += timeSinceUpdate;
+    // Waiting at a hub or a restaurant isn't a rider down; at home there's no idle check at all
+    const location = stop.location || this.getCurrentLocation();
+    const place = location ? findKnownPlace(this.knownPlaces, location) : null;
+    const allowance = getIdleAllowanceMs(this.profile.idleWarningMs, place, stop.recurring, RECURRING_STOP_IDLE_FACTOR);
     
-    if (this.state.idleTime > IDLE_WARNING_MS) {
+    if (allowance !== null && stop.durationMs > allowance) {
       this.triggerRiskEvent({
         type: 'long_idle',
-        severity: 'high',
+        severity: place ? 'medium' : 'high',
         timestamp: now,
-        location: this.state.lastPosition ? {
-          lat: this.state.lastPosition.coords.latitude,
-          lng: this.state.lastPosition.coords.longitude,
-        } : undefined,
+        location: location || undefined,
+        message: place ? `Idle at ${place.name}` : undefined,
+        place: place ? { id: place.id, name: place.name, type: place.type } : undefined,
       });
     }
   }
   
   private startMotionDetection(): void {
-    if ('DeviceMotionEvent' in window) {
-      this.motionHandler = (event: DeviceMotionEvent) => {
-        const acc = event.accelerationIncludingGravity;
-        if (!acc) return;
-        
-        const x = acc.x || 0;
-        const y = acc.y || 0;
-        const z = acc.z || 0;
-        
-        // Detect sudden large acceleration changes (potential fall)
-        const deltaX = Math.abs(x - this.lastAcceleration.x);
-        const deltaY = Math.abs(y - this.lastAcceleration.y);
-        const deltaZ = Math.abs(z - this.lastAcceleration.z);
-        
-        const totalDelta = Math.sqrt(deltaX ** 2 + deltaY ** 2 + deltaZ ** 2);
-        
-        // Fall detection threshold (significant G-force change)
-        if (totalDelta > 25) {
-          this.triggerRiskEvent({
-            type: 'fall_detected',
-            severity: 'critical',
-            timestamp: Date.now(),
-            location: this.state.lastPosition ? {
-              lat: this.state.lastPosition.coords.latitude,
-              lng: this.state.lastPosition.coords.longitude,
-            } : undefined,
-          });
-        }
-        
-        this.lastAcceleration = { x, y, z };
-      };
-      
-      window.addEventListener('devicemotion', this.motionHandler);
-    }
+    const hub = getSensorHub(this.source);
+    
+    // Crash/fall detection sees every frame in every tier
+    this.removeMotionListener = hub.subscribeFrames(frame => this.crashDetector.addMotion(frame));
+    this.removeOrientationListener = hub.subscribeOrientation(
+      sample => this.crashDetector.addOrientation(sample)
+    );
+    
+    // Dead reckoning needs to know whether the rider is still moving once GPS drops
+    this.removeGpsMotionListener = hub.subscribe(GPS_MOTION_FEATURES, (features, timestamp) => {
+      this.gps.addMotion(features.std >= MOVING_VIBRATION_STD, timestamp, this.getGpsStaleAfterMs());
+    });
+    
+    this.removeDrivingMotionListener = hub.subscribe(DRIVING_MOTION_FEATURES, (features, timestamp) => {
+      const interval = SAMPLING_TIERS[this.power.getTier()].drivingEventIntervalMs;
+      if (interval === null || timestamp - this.lastDrivingMotionTime < interval) return;
+      this.lastDrivingMotionTime = timestamp;
+      this.drivingEvents.updateMotion(features, timestamp);
+    });
+    
+    // Road mapping is a nice-to-have, paused in the low-battery tiers
+    this.removeRoadMotionListeners = [
+      hub.subscribeFrames(frame => {
+        if (SAMPLING_TIERS[this.power.getTier()].roadQuality) this.roadQuality.addMotion(frame);
+      }),
+      hub.subscribe(ROAD_ROUGHNESS_FEATURES, (features, timestamp) => {
+        if (SAMPLING_TIERS[this.power.getTier()].roadQuality) this.roadQuality.updateRoughness(features, timestamp);
+      }),
+    ];
   }
   
   private stopMotionDetection(): void {
-    if (this.motionHandler) {
-      window.removeEventListener('devicemotion', this.motionHandler);
-      this.motionHandler = null;
-    }
+    this.removeMotionListener?.();
+    this.removeDrivingMotionListener?.();
+    this.removeOrientationListener?.();
+    this.removeGpsMotionListener?.();
+    this.removeRoadMotionListeners.forEach(remove => remove());
+    this.removeRoadMotionListeners = [];
+    this.removeMotionListener = null;
+    this.removeGpsMotionListener = null;
+    this.removeDrivingMotionListener = null;
+    this.removeOrientationListener = null;
   }
   
-  private triggerRiskEvent(event: RiskEvent): void {
-    // Debounce same event type (don't spam)
+  private startPlugins(): void {
+    const hub = getSensorHub(this.source);
+    
+    this.plugins = getRiskDetectorPlugins().map(detector => {
+      const instance = detector.create(this.createPluginContext(detector));
+      detector.features?.forEach(subscription => {
+        this.removePluginListeners.push(hub.subscribe(subscription, (features, timestamp) => {
+          this.runPlugins(plugin => plugin.onFeatures?.(features, timestamp, subscription), [instance]);
+        }));
+      });
+      return instance;
+    });
+  }
+  
+  private stopPlugins(): void {
+    this.removePluginListeners.forEach(remove => remove());
+    this.removePluginListeners = [];
+    this.runPlugins(plugin => plugin.stop?.());
+    this.plugins = [];
+  }
+  
+  // A broken plugin mustn't take the core risk rules down with it
+  private runPlugins(call: (plugin: RiskDetectorInstance) => void, plugins = this.plugins): void {
+    plugins.forEach(plugin => {
+      try {
+        call(plugin);
+      } catch (error) {
+        console.error('Risk detector plugin failed:', error);
+      }
+    });
+  }
+  
+  private createPluginContext(detector: RiskDetector): RiskDetectorContext {
+    return {
+      now: () => this.source.now(),
+      getProfile: () => this.profile,
+      getLocation: () => this.getCurrentLocation(),
+      getSpeed: () => this.state.lastSpeed,
+      getWeather: () => this.weather,
+      report: ({ severity, debounceMs, silent, ...details } = {}) => {
+        if (!this.state.isActive) return;
+        this.triggerRiskEvent({
+          ...details,
+          type: detector.type,
+          severity: severity ?? detector.defaultSeverity,
+          timestamp: this.source.now(),
+          location: details.location ?? this.getCurrentLocation() ?? undefined,
+        }, { debounceMs, silent });
+      },
+    };
+  }
+  
+  private handleDrivingEvent(event: DrivingEvent): void {
+    if (!this.state.isActive || SAMPLING_TIERS[this.power.getTier()].drivingEventIntervalMs === null) return;
+    
+    this.triggerRiskEvent({
+      type: event.type,
+      severity: event.severity,
+      timestamp: this.source.now(),
+      location: this.getCurrentLocation() || undefined,
+      message: `${event.intensityG}g at ${event.speedKmh} km/h`,
+    }, {
+      // Every manoeuvre counts toward the ride score; the detector has its own cooldown
+      debounceMs: 0,
+      // Only speak up for the harsher ones
+      silent: event.severity === 'low',
+    });
+  }
+  
+  private handleCrashAssessment(evidence: CrashEvidence): void {
+    if (!this.state.isActive) return;
+    
+    this.triggerRiskEvent({
+      type: evidence.kind === 'crash' ? 'crash_detected' : 'fall_detected',
+      severity: 'critical',
+      timestamp: evidence.impactTime,
+      location: this.getCurrentLocation() || undefined,
+      message: `Impact ${evidence.impactG}g, ${evidence.speedBefore}→${evidence.speedAfter} km/h, ${evidence.confidence}% confidence`,
+      crashData: evidence,
+    });
+  }
+  
+  // debounceMs: ignore repeats of the same event type within this window
+  // silent: record and notify, but no voice or vibration
+  private triggerRiskEvent(event: RiskEvent, options: { debounceMs?: number; silent?: boolean } = {}): void {
+    const { debounceMs = 60000, silent = false } = options;
+    
+    // Debounce same event type (don't spam). Different zones are different events.
     const recentSameEvent = this.state.riskEvents.find(
-      e => e.type === event.type && (Date.now() - e.timestamp) < 60000
+      e => e.type === event.type && e.zone?.id === event.zone?.id && (this.source.now() - e.timestamp) < debounceMs
     );
     
     if (recentSameEvent) return;
     
     this.state.riskEvents.push(event);
     
-    // Voice warning
-    speak(event.type);
-    
-    // Vibration based on severity
-    if (event.severity === 'critical') {
-      vibrateEmergency();
-      // Auto-trigger emergency for critical events
-      if (event.type === 'fall_detected') {
-        setTimeout(() => {
-          this.onEmergency?.();
-        }, 10000); // 10 second delay to allow cancellation
-      }
+    if (silent) {
+      this.onRiskEvent?.(event);
+      return;
+    }
+    
+    // Voice warning and vibration
+    if (this.muted) {
+      this.onAlert?.(event);
     } else {
-      vibrateAlert();
+      announceRiskEvent(event);
     }
     
-    // Notify handler
+    // Notify handler - crash and fall escalation is decided after confidence scoring
     this.onRiskEvent?.(event);
-  }
-  
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = this.toRad(lat2 - lat1);
-    const dLon = this.toRad(lon2 - lon1);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRad(lat1)) * Math.cos(this.toRad(lat2)) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-  
-  private toRad(deg: number): number {
-    return deg * (Math.PI / 180);
+    
+    // Serious events bring sampling back up straight away
+    if (event.severity === 'high' || event.severity === 'critical') {
+      this.updateSamplingTier();
+    }
   }
   
   getState(): RideState {
@@ -314,6 +636,8 @@ class RideMonitor {
   }
   
   getCurrentLocation(): { lat: number; lng: number } | null {
+    const fix = this.positionFilter.getLastFix();
+    if (fix) return { lat: fix.lat, lng: fix.lng };
     if (!this.state.lastPosition) return null;
     return {
       lat: this.state.lastPosition.coords.latitude,
@@ -321,6 +645,45 @@ class RideMonitor {
     };
   }
   
+  getGpsHealth(): GpsHealth {
+    return this.gps.getHealth(this.source.now(), this.getGpsStaleAfterMs());
+  }
+  
+  // Best guess at where the rider is, with its age and uncertainty (dead-reckoned while GPS is lost)
+  getLocationEstimate(): LocationEstimate | null {
+    if (!this.state.isActive) return null;
+    return this.gps.getEstimate(this.source.now(), this.getGpsStaleAfterMs());
+  }
+  
+  // A fix older than the current tier's GPS timeout plus cache age is overdue
+  private getGpsStaleAfterMs(): number {
+    const { timeout = 0, maximumAge = 0 } = SAMPLING_TIERS[this.power.getTier()].gps;
+    return timeout + maximumAge;
+  }
+  
+  // Riding time so far, excluding delivery stops and breaks
+  getActiveRidingMs(): number {
+    if (!this.state.isActive) return 0;
+    return this.segmenter.getActiveRidingMs(this.source.now());
+  }
+  
+  getSegments(): RideSegment[] {
+    return this.segmenter.getSegments();
+  }
+  
+  getCurrentStop(): CurrentStop | null {
+    if (!this.state.isActive) return null;
+    return this.segmenter.getCurrentStop(this.source.now());
+  }
+  
+  getSamplingTier(): SamplingTier {
+    return this.power.getTier();
+  }
+  
+  getBatteryStatus(): BatteryStatus {
+    return this.power.getBattery();
+  }
+  
   getCurrentSpeed(): number {
     return this.state.lastSpeed;
   }
@@ -330,7 +693,7 @@ class RideMonitor {
     this.triggerRiskEvent({
       type: 'heat_warning',
       severity: weatherData?.feelsLike && weatherData.feelsLike >= 45 ? 'critical' : 'high',
-      timestamp: Date.now(),
+      timestamp: this.source.now(),
       location: this.getCurrentLocation() || undefined,
       weatherData,
     });
@@ -341,7 +704,7 @@ class RideMonitor {
     this.triggerRiskEvent({
       type: 'rain_warning',
       severity: 'medium',
-      timestamp: Date.now(),
+      timestamp: this.source.now(),
       location: this.getCurrentLocation() || undefined,
       weatherData,
     });
@@ -352,7 +715,7 @@ class RideMonitor {
     this.triggerRiskEvent({
       type: 'high_wind',
       severity: 'high',
-      timestamp: Date.now(),
+      timestamp: this.source.now(),
       location: this.getCurrentLocation() || undefined,
       weatherData,
     });
@@ -363,7 +726,7 @@ class RideMonitor {
     this.triggerRiskEvent({
       type: 'extreme_weather',
       severity: 'critical',
-      timestamp: Date.now(),
+      timestamp: this.source.now(),
       location: this.getCurrentLocation() || undefined,
       weatherData,
     });
@@ -374,10 +737,8 @@ class RideMonitor {
     this.triggerRiskEvent({
       type: 'unsafe_zone',
       severity: 'medium',
-      timestamp: Date.now(),
+      timestamp: this.source.now(),
       location: this.getCurrentLocation() || undefined,
     });
   }
 }
-
-export const rideMonitor = new RideMonitor();
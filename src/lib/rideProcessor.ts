@@ -0,0 +1,168 @@
+// Ride processor - one ride's risk rules and fatigue detection over a sensor source
+// Runs inside the sensor worker, on the UI thread where workers are unavailable,
+// and for trace replay, so all three see the same wiring
+
+import { RideMonitor, type RideState, type RideWeatherData, type RiskEvent } from './rideMonitor';
+import { FatigueDetector, type FatigueLevel } from './fatigueDetection';
+import type { SensorSource } from './sensorSource';
+import type { VehicleProfile } from './vehicleProfiles';
+import type { CurrentStop } from './rideSegments';
+import type { BatteryStatus, SamplingTier } from './powerManager';
+import type { GpsHealth, LocationEstimate } from './gpsHealth';
+import type { FatigueBaseline } from './fatigueBaseline';
+import type { FatigueTimeline } from './fatigueTimeline';
+import { getRestTakenMs } from './restCompliance';
+import './localDetectors';
+
+const FATIGUE_FEED_INTERVAL_MS = 5000;
+
+// Everything the UI reads during a ride
+export interface RideSnapshot {
+  isActive: boolean;
+  startTime: number | null;
+  lastSpeed: number;
+  distanceTraveled: number;
+  riskEvents: RiskEvent[];
+  location: { lat: number; lng: number } | null; // last GPS fix
+  locationEstimate: LocationEstimate | null; // dead-reckoned while GPS is lost
+  gpsHealth: GpsHealth;
+  activeRidingMs: number;
+  currentStop: CurrentStop | null;
+  samplingTier: SamplingTier;
+  battery: BatteryStatus;
+  fatigueLevel: FatigueLevel;
+}
+
+export interface RideResult {
+  ride: RideState;
+  fatigueMetrics: ReturnType<FatigueDetector['getMetrics']>;
+  fatigueBaseline: FatigueBaseline | null; // updated with this ride, for the UI thread to store
+  fatigueTimeline: FatigueTimeline | null; // scores and nudges through the ride
+  partial?: boolean; // rebuilt from snapshots: no track, segments or fatigue scores
+}
+
+// UI-driven inputs: weather from the weather service, and the demo controls
+export type RideCommand =
+  | { kind: 'weather'; data: RideWeatherData }
+  | { kind: 'heat_warning' | 'rain_warning' | 'wind_warning' | 'extreme_weather'; weatherData?: RideWeatherData }
+  | { kind: 'unsafe_zone_demo' }
+  | { kind: 'simulate_fatigue'; level: Exclude<FatigueLevel, 'none'> }
+  | { kind: 'simulate_panic' }
+  | { kind: 'reset_simulation' };
+
+export const IDLE_SNAPSHOT: RideSnapshot = {
+  isActive: false,
+  startTime: null,
+  lastSpeed: 0,
+  distanceTraveled: 0,
+  riskEvents: [],
+  location: null,
+  locationEstimate: null,
+  gpsHealth: 'good',
+  activeRidingMs: 0,
+  currentStop: null,
+  samplingTier: 'full',
+  battery: { level: null, charging: false },
+  fatigueLevel: 'none',
+};
+
+export class RideProcessor {
+  readonly monitor: RideMonitor;
+  readonly fatigue: FatigueDetector;
+  private feedInterval: number | null = null;
+
+  constructor(private source: SensorSource, muted = false) {
+    this.monitor = new RideMonitor(source, muted);
+    this.fatigue = new FatigueDetector(source, muted);
+  }
+
+  async start(profile?: VehicleProfile): Promise<boolean> {
+    if (profile) {
+      this.monitor.setVehicleProfile(profile);
+      this.fatigue.setVehicleProfile(profile);
+    }
+
+    const started = await this.monitor.startMonitoring();
+    if (!started) return false;
+
+    this.fatigue.startMonitoring();
+
+    // Ride data the fatigue detector needs, every 5 seconds
+    this.feedInterval = this.source.setInterval(() => {
+      this.fatigue.updateGPSData(this.monitor.getCurrentSpeed());
+      this.fatigue.updateActiveRidingTime(this.monitor.getActiveRidingMs());
+      this.fatigue.updateRestTime(getRestTakenMs(this.monitor.getSegments(), this.source.now()));
+      this.fatigue.setSamplingTier(this.monitor.getSamplingTier());
+    }, FATIGUE_FEED_INTERVAL_MS);
+
+    return true;
+  }
+
+  stop(): RideResult {
+    if (this.feedInterval !== null) {
+      this.source.clearInterval(this.feedInterval);
+      this.feedInterval = null;
+    }
+
+    const ride = this.monitor.stopMonitoring();
+    this.fatigue.stopMonitoring();
+    return {
+      ride,
+      fatigueMetrics: this.fatigue.getMetrics(),
+      fatigueBaseline: this.fatigue.getBaseline(),
+      fatigueTimeline: this.fatigue.getTimeline(),
+    };
+  }
+
+  run(command: RideCommand): void {
+    switch (command.kind) {
+      case 'weather':
+        this.fatigue.updateWeatherData(command.data);
+        this.monitor.setWeather(command.data);
+        break;
+      case 'heat_warning':
+        this.monitor.triggerHeatWarning(command.weatherData);
+        break;
+      case 'rain_warning':
+        this.monitor.triggerRainWarning(command.weatherData);
+        break;
+      case 'wind_warning':
+        this.monitor.triggerWindWarning(command.weatherData);
+        break;
+      case 'extreme_weather':
+        this.monitor.triggerExtremeWeather(command.weatherData);
+        break;
+      case 'unsafe_zone_demo':
+        this.monitor.triggerUnsafeZoneWarning();
+        break;
+      case 'simulate_fatigue':
+        this.fatigue.simulateFatigue(command.level);
+        break;
+      case 'simulate_panic':
+        this.fatigue.simulatePanic();
+        break;
+      case 'reset_simulation':
+        this.fatigue.resetSimulation();
+        break;
+    }
+  }
+
+  getSnapshot(): RideSnapshot {
+    const state = this.monitor.getState();
+    return {
+      isActive: state.isActive,
+      startTime: state.startTime,
+      lastSpeed: state.lastSpeed,
+      distanceTraveled: state.distanceTraveled,
+      riskEvents: state.riskEvents,
+      location: this.monitor.getCurrentLocation(),
+      locationEstimate: this.monitor.getLocationEstimate(),
+      gpsHealth: this.monitor.getGpsHealth(),
+      activeRidingMs: this.monitor.getActiveRidingMs(),
+      currentStop: this.monitor.getCurrentStop(),
+      samplingTier: this.monitor.getSamplingTier(),
+      battery: this.monitor.getBatteryStatus(),
+      fatigueLevel: this.fatigue.getFatigueLevel(),
+    };
+  }
+}
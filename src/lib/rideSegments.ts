@@ -0,0 +1,230 @@
+// Ride segmentation - splits a shift into riding legs and stops
+// A gig shift is one session, but pickups and drop-offs are not risk:
+// stops are classified by duration and by whether the rider stops there often
+
+import { STATIONARY_SPEED_KMH, haversineDistance } from './positionFilter';
+
+const STOP_LOCATIONS_KEY = 'kavach_stop_locations';
+const STOP_CELL_PRECISION = 3; // ~110m - a restaurant or apartment block
+
+// Below this, a stop is traffic and stays part of the riding leg
+const STOP_MIN_MS = 60 * 1000;
+const RESUME_SPEED_KMH = 5;
+const STOP_RADIUS_M = 50; // Walking around a building isn't riding
+const NO_FIX_STOP_MS = 90 * 1000; // No GPS for this long = treat as stopped
+
+// Stop classification by duration
+const DELIVERY_STOP_MAX_MS = 15 * 60 * 1000;
+const BREAK_STOP_MAX_MS = 45 * 60 * 1000;
+
+export type StopType = 'delivery' | 'break' | 'long_stop';
+
+export interface RideSegment {
+  kind: 'moving' | 'stopped';
+  startTime: number;
+  endTime: number | null; // null while the segment is open
+  location: { lat: number; lng: number }; // where it started
+  distance?: number; // metres, moving segments
+  stopType?: StopType; // stopped segments, set when the stop ends
+  recurring?: boolean; // stopped segments - rider has stopped here before
+}
+
+export interface CurrentStop {
+  since: number;
+  durationMs: number;
+  location: { lat: number; lng: number } | null;
+  recurring: boolean;
+  confirmed: boolean; // past the traffic-stop threshold
+}
+
+function getStopCellId(lat: number, lng: number): string {
+  return `${lat.toFixed(STOP_CELL_PRECISION)},${lng.toFixed(STOP_CELL_PRECISION)}`;
+}
+
+// UI thread only: the sensor worker has no storage and gets the counts in its start message
+export function getStopCounts(): Record<string, number> {
+  try {
+    const data = localStorage.getItem(STOP_LOCATIONS_KEY);
+    if (data) return JSON.parse(data);
+  } catch {
+    // Ignore parse errors
+  }
+  return {};
+}
+
+export function recordStopVisit(lat: number, lng: number): void {
+  try {
+    const counts = getStopCounts();
+    const cellId = getStopCellId(lat, lng);
+    counts[cellId] = (counts[cellId] || 0) + 1;
+    localStorage.setItem(STOP_LOCATIONS_KEY, JSON.stringify(counts));
+  } catch (e) {
+    console.error('Failed to save stop location:', e);
+  }
+}
+
+export function classifyStop(durationMs: number): StopType {
+  if (durationMs <= DELIVERY_STOP_MAX_MS) return 'delivery';
+  if (durationMs <= BREAK_STOP_MAX_MS) return 'break';
+  return 'long_stop';
+}
+
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  return haversineDistance(a.lat, a.lng, b.lat, b.lng);
+}
+
+export class RideSegmenter {
+  private segments: RideSegment[] = [];
+  private current: RideSegment | null = null;
+  private stationarySince: number | null = null;
+  private stationaryLocation: { lat: number; lng: number } | null = null;
+  private lastFixTime = 0;
+  private lastLocation: { lat: number; lng: number } | null = null;
+  private stopCounts: Record<string, number> = {};
+  private onStopClosed: ((segment: RideSegment) => void) | null = null;
+
+  // stopCounts: earlier visits per stop cell, from getStopCounts
+  // onStopClosed: remembers the stop; left out when replaying, so replays don't teach stop locations
+  start(
+    timestamp: number,
+    location: { lat: number; lng: number },
+    stopCounts: Record<string, number> = {},
+    onStopClosed?: (segment: RideSegment) => void
+  ): void {
+    this.segments = [];
+    this.current = { kind: 'moving', startTime: timestamp, endTime: null, location, distance: 0 };
+    this.stationarySince = null;
+    this.stationaryLocation = null;
+    this.lastFixTime = timestamp;
+    this.lastLocation = location;
+    this.stopCounts = stopCounts;
+    this.onStopClosed = onStopClosed ?? null;
+  }
+
+  update(timestamp: number, location: { lat: number; lng: number }, speedKmh: number, distanceDelta: number): void {
+    if (!this.current) return;
+    this.lastFixTime = timestamp;
+    this.lastLocation = location;
+
+    if (this.current.kind === 'moving') {
+      this.current.distance = (this.current.distance || 0) + distanceDelta;
+
+      if (speedKmh >= STATIONARY_SPEED_KMH) {
+        this.stationarySince = null;
+        this.stationaryLocation = null;
+        return;
+      }
+
+      if (this.stationarySince === null) {
+        this.stationarySince = timestamp;
+        this.stationaryLocation = location;
+        return;
+      }
+
+      if (timestamp - this.stationarySince >= STOP_MIN_MS) {
+        this.openStop(this.stationarySince, this.stationaryLocation || location);
+      }
+      return;
+    }
+
+    // Stopped: resume once the rider is clearly riding away
+    if (speedKmh >= RESUME_SPEED_KMH || distanceMeters(this.current.location, location) > STOP_RADIUS_M) {
+      this.closeCurrent(timestamp);
+      this.current = { kind: 'moving', startTime: timestamp, endTime: null, location, distance: distanceDelta };
+    }
+  }
+
+  // Periodic check - opens a stop even when GPS has gone quiet (rider indoors)
+  tick(now: number): void {
+    if (this.current?.kind !== 'moving') return;
+    const stop = this.getCurrentStop(now);
+    if (stop?.confirmed && stop.location) {
+      this.openStop(stop.since, stop.location);
+    }
+  }
+
+  private openStop(since: number, location: { lat: number; lng: number }): void {
+    this.closeCurrent(since);
+    const earlierThisShift = this.segments.some(s =>
+      s.kind === 'stopped' && distanceMeters(s.location, location) <= STOP_RADIUS_M * 2
+    );
+    this.current = {
+      kind: 'stopped',
+      startTime: since,
+      endTime: null,
+      location,
+      recurring: earlierThisShift || this.isKnownStop(location),
+    };
+    this.stationarySince = null;
+    this.stationaryLocation = null;
+  }
+
+  private closeCurrent(timestamp: number): void {
+    if (!this.current) return;
+    const segment = { ...this.current, endTime: timestamp };
+
+    if (segment.kind === 'stopped') {
+      segment.stopType = classifyStop(timestamp - segment.startTime);
+      this.onStopClosed?.(segment);
+    }
+
+    // Zero-length legs (stop right at ride start) carry no information
+    if (timestamp > segment.startTime) {
+      this.segments.push(segment);
+    }
+    this.current = null;
+  }
+
+  private isKnownStop(location: { lat: number; lng: number }): boolean {
+    return (this.stopCounts[getStopCellId(location.lat, location.lng)] || 0) > 0;
+  }
+
+  finish(timestamp: number): RideSegment[] {
+    this.closeCurrent(timestamp);
+    return [...this.segments];
+  }
+
+  getSegments(): RideSegment[] {
+    return this.current ? [...this.segments, { ...this.current }] : [...this.segments];
+  }
+
+  // Riding time, excluding confirmed stops
+  getActiveRidingMs(now: number): number {
+    let total = this.segments
+      .filter(s => s.kind === 'moving')
+      .reduce((sum, s) => sum + ((s.endTime ?? now) - s.startTime), 0);
+
+    if (this.current?.kind === 'moving') {
+      total += now - this.current.startTime;
+    }
+    return total;
+  }
+
+  // The stop in progress, if any - including one not yet long enough to be a segment
+  getCurrentStop(now: number): CurrentStop | null {
+    if (!this.current) return null;
+
+    if (this.current.kind === 'stopped') {
+      return {
+        since: this.current.startTime,
+        durationMs: now - this.current.startTime,
+        location: this.current.location,
+        recurring: this.current.recurring || false,
+        confirmed: true,
+      };
+    }
+
+    // GPS silent for a while - the rider is probably indoors
+    const since = this.stationarySince ?? (now - this.lastFixTime >= NO_FIX_STOP_MS ? this.lastFixTime : null);
+    if (since === null) return null;
+
+    const location = this.stationaryLocation || this.lastLocation;
+    return {
+      since,
+      durationMs: now - since,
+      location,
+      recurring: location ? this.isKnownStop(location) : false,
+      confirmed: now - since >= STOP_MIN_MS,
+    };
+  }
+}
@@ -0,0 +1,112 @@
+// Risk detector registry - what each risk event type is and how it is scored and spoken
+// Built-in types are run by the ride monitor itself. Plugins also bring their own rule:
+// register one here (see localDetectors.ts) and the monitor runs it on every ride,
+// with no changes to the monitor, confidence scoring or the risk_events table.
+
+import { registerVoiceMessages } from './voiceOutput';
+import type { RideWeatherData, RiskEvent } from './rideMonitor';
+import type { FilteredFix } from './positionFilter';
+import type { FeatureSubscription, WindowFeatures } from './sensorHub';
+import type { VehicleProfile } from './vehicleProfiles';
+
+// Matches the risk_events.event_type CHECK constraint
+const EVENT_TYPE_PATTERN = /^[a-z][a-z0-9_]{1,48}$/;
+
+export type RiskSeverity = RiskEvent['severity'];
+
+// What a plugin sends when its rule fires; the monitor fills in type, time and location
+export interface RiskReport {
+  severity?: RiskSeverity; // defaults to the detector's defaultSeverity
+  message?: string;
+  location?: { lat: number; lng: number };
+  weatherData?: RideWeatherData;
+  debounceMs?: number; // repeats of this type inside the window are dropped (default 60s)
+  silent?: boolean; // record it, but no voice or vibration
+}
+
+// The ride as a plugin sees it
+export interface RiskDetectorContext {
+  now(): number;
+  getProfile(): VehicleProfile;
+  getLocation(): { lat: number; lng: number } | null;
+  getSpeed(): number; // km/h, smoothed
+  getWeather(): RideWeatherData | null;
+  report(report?: RiskReport): void;
+}
+
+// One ride's worth of a plugin's state. Every hook is optional.
+export interface RiskDetectorInstance {
+  onFix?(fix: FilteredFix): void; // each accepted GPS fix
+  onFeatures?(features: WindowFeatures, timestamp: number, subscription: FeatureSubscription): void;
+  onWeather?(weather: RideWeatherData): void;
+  onTick?(): void; // every 30 seconds
+  stop?(): void;
+}
+
+export interface RiskDetector {
+  type: string; // risk event type, lower_snake_case
+  label: string; // shown in ride status and history
+  defaultSeverity: RiskSeverity;
+  voiceKey?: string; // message spoken on alert, defaults to the type
+  voiceMessages?: Record<string, Record<string, string>>; // language -> key -> text
+  // Confidence rule: adjust the severity-based sensor intensity (0-40) for this type
+  adjustIntensity?(intensity: number, event: RiskEvent): number;
+  features?: FeatureSubscription[]; // sensor hub windows delivered to onFeatures
+  create?(context: RiskDetectorContext): RiskDetectorInstance; // plugins only
+}
+
+const BUILTIN_DETECTORS: RiskDetector[] = [
+  { type: 'speed_warning', label: 'Speed Alert', defaultSeverity: 'medium', adjustIntensity: i => Math.max(10, i - 5) },
+  { type: 'heat_warning', label: 'Heat Alert', defaultSeverity: 'high', adjustIntensity: i => Math.max(10, i - 5) },
+  { type: 'unsafe_zone', label: 'Unsafe Area', defaultSeverity: 'medium' },
+  { type: 'sudden_stop', label: 'Sudden Stop', defaultSeverity: 'high', adjustIntensity: i => i + 5 },
+  { type: 'fall_detected', label: 'Fall Detected', defaultSeverity: 'critical', adjustIntensity: i => i + 10 },
+  { type: 'crash_detected', label: 'Crash Detected', defaultSeverity: 'critical', adjustIntensity: i => i + 10 },
+  { type: 'harsh_braking', label: 'Harsh Braking', defaultSeverity: 'medium' },
+  { type: 'harsh_acceleration', label: 'Harsh Acceleration', defaultSeverity: 'medium' },
+  { type: 'sharp_cornering', label: 'Sharp Turn', defaultSeverity: 'medium' },
+  { type: 'long_idle', label: 'Idle Warning', defaultSeverity: 'high' },
+  { type: 'wellness_check', label: 'Check-in', defaultSeverity: 'low' },
+  { type: 'rain_warning', label: 'Rain Alert', defaultSeverity: 'medium' },
+  { type: 'extreme_weather', label: 'Extreme Weather', defaultSeverity: 'critical' },
+  { type: 'high_wind', label: 'Wind Alert', defaultSeverity: 'high' },
+];
+
+const detectors = new Map<string, RiskDetector>(BUILTIN_DETECTORS.map(d => [d.type, d]));
+const builtinTypes = new Set(BUILTIN_DETECTORS.map(d => d.type));
+
+export function registerRiskDetector(detector: RiskDetector): void {
+  if (!EVENT_TYPE_PATTERN.test(detector.type)) {
+    throw new Error(`Invalid risk event type "${detector.type}": use lower_snake_case`);
+  }
+  if (builtinTypes.has(detector.type)) {
+    throw new Error(`Risk event type "${detector.type}" is built in`);
+  }
+
+  // Re-registering a plugin type replaces it (hot reload)
+  detectors.set(detector.type, detector);
+  if (detector.voiceMessages) registerVoiceMessages(detector.voiceMessages);
+}
+
+export function getRiskDetector(type: string): RiskDetector | undefined {
+  return detectors.get(type);
+}
+
+export type RiskDetectorPlugin = RiskDetector & { create: NonNullable<RiskDetector['create']> };
+
+function isPlugin(detector: RiskDetector): detector is RiskDetectorPlugin {
+  return typeof detector.create === 'function';
+}
+
+// Plugins with a rule for the monitor to run
+export function getRiskDetectorPlugins(): RiskDetectorPlugin[] {
+  return [...detectors.values()].filter(isPlugin);
+}
+
+export function getRiskEventLabel(type: string): string {
+  return detectors.get(type)?.label ?? type.replace(/_/g, ' ');
+}
+
+export function getRiskVoiceKey(type: string): string {
+  return detectors.get(type)?.voiceKey ?? type;
+}
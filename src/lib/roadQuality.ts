@@ -0,0 +1,154 @@
+// Road roughness and pothole detection from ride vibrations
+// With the phone roughly still in its mount, |acceleration incl. gravity| ≈ g + vertical
+// acceleration, so spikes in the magnitude channel are the road hitting the wheels.
+// Hits are only counted at a known speed and tagged to a ~20 m cell, so reports from
+// different riders over the same pothole land in the same place (see roadReports.ts).
+
+import type { FilteredFix } from './positionFilter';
+import type { FeatureSubscription, MotionFrame, WindowFeatures } from './sensorHub';
+
+export type RoadHitKind = 'pothole' | 'speed_breaker' | 'rough_surface';
+
+export interface RoadHit {
+  kind: RoadHitKind;
+  severity: 'low' | 'medium' | 'high';
+  cellId: string;
+  location: { lat: number; lng: number };
+  intensityG: number; // peak vertical acceleration (impacts) or vibration std (rough surface)
+  speedKmh: number;
+  timestamp: number;
+}
+
+const GRAVITY = 9.81;
+const CELL_DEGREES = 0.0002; // ~22 m - coarser than GPS error, so riders agree on the cell
+
+// Grading thresholds in g: [low, medium, high]
+const IMPACT_G = [0.5, 0.8, 1.2]; // vertical spike above gravity
+const ROUGH_STD_G = [0.25, 0.4, 0.6]; // sustained vibration
+
+const MIN_SPEED_KMH = 10; // Slower and a kerb or a pothole feel the same as walking the bike
+const MIN_ROUGH_SPEED_KMH = 15;
+const MAX_FIX_AGE_MS = 3000; // Speed and location must be current to place a hit
+const IMPACT_GAP_MS = 600; // Spikes closer than this are one impact (front and rear wheel)
+
+// Speed breakers: riders brake into them, so the hit comes at low speed after slowing
+const SPEED_BREAKER_MAX_KMH = 25;
+const SPEED_BREAKER_SLOWDOWN = 0.7; // Below this fraction of the recent peak speed
+const SPEED_HISTORY_MS = 8000;
+
+const ROUGH_WINDOW_MS = 5000;
+
+// Vibration over a few seconds of riding, for rough-surface detection
+export const ROAD_ROUGHNESS_FEATURES: FeatureSubscription = { channel: 'magnitude', windowMs: ROUGH_WINDOW_MS, everyMs: ROUGH_WINDOW_MS };
+
+export function getRoadCellId(lat: number, lng: number): string {
+  const snap = (value: number) => (Math.round(value / CELL_DEGREES) * CELL_DEGREES).toFixed(4);
+  return `${snap(lat)},${snap(lng)}`;
+}
+
+function grade(g: number, thresholds: number[]): RoadHit['severity'] | null {
+  if (g >= thresholds[2]) return 'high';
+  if (g >= thresholds[1]) return 'medium';
+  if (g >= thresholds[0]) return 'low';
+  return null;
+}
+
+export class RoadQualityDetector {
+  private lastFix: FilteredFix | null = null;
+  private recentSpeeds: { timestamp: number; speedKmh: number }[] = [];
+  private impact: { start: number; last: number; peakG: number; fix: FilteredFix } | null = null;
+  private crashImpactG = Infinity;
+  private reported = new Set<string>(); // cell + kind, once per ride
+
+  constructor(private onHit: (hit: RoadHit) => void) {}
+
+  reset(): void {
+    this.lastFix = null;
+    this.recentSpeeds = [];
+    this.impact = null;
+    this.reported.clear();
+  }
+
+  // Impacts this hard are the crash detector's, not the road's
+  setCrashImpactThreshold(g: number): void {
+    this.crashImpactG = g;
+  }
+
+  addFix(fix: FilteredFix): void {
+    this.lastFix = fix;
+    this.recentSpeeds = this.recentSpeeds.filter(s => fix.timestamp - s.timestamp <= SPEED_HISTORY_MS);
+    this.recentSpeeds.push({ timestamp: fix.timestamp, speedKmh: fix.speedKmh });
+  }
+
+  // Every sensor hub frame
+  addMotion(frame: MotionFrame): void {
+    if (this.impact && frame.timestamp - this.impact.last > IMPACT_GAP_MS) {
+      this.finishImpact();
+    }
+
+    const verticalG = (frame.peakMagnitude - GRAVITY) / GRAVITY;
+    if (verticalG < IMPACT_G[0]) return;
+    if (verticalG + 1 >= this.crashImpactG) {
+      this.impact = null;
+      return;
+    }
+
+    if (this.impact) {
+      this.impact.last = frame.timestamp;
+      this.impact.peakG = Math.max(this.impact.peakG, verticalG);
+      return;
+    }
+
+    const fix = this.getCurrentFix(frame.timestamp, MIN_SPEED_KMH);
+    if (fix) this.impact = { start: frame.timestamp, last: frame.timestamp, peakG: verticalG, fix };
+  }
+
+  // ROAD_ROUGHNESS_FEATURES from the sensor hub
+  updateRoughness(features: WindowFeatures, timestamp: number): void {
+    const fix = this.getCurrentFix(timestamp, MIN_ROUGH_SPEED_KMH);
+    if (!fix) return;
+
+    const stdG = features.std / GRAVITY;
+    const severity = grade(stdG, ROUGH_STD_G);
+    if (severity) this.report('rough_surface', severity, stdG, fix, timestamp);
+  }
+
+  private finishImpact(): void {
+    const impact = this.impact!;
+    this.impact = null;
+
+    const severity = grade(impact.peakG, IMPACT_G);
+    if (!severity) return;
+
+    const peakRecentSpeed = this.recentSpeeds
+      .filter(s => impact.fix.timestamp - s.timestamp <= SPEED_HISTORY_MS)
+      .reduce((max, s) => Math.max(max, s.speedKmh), 0);
+    const slowedDown = impact.fix.speedKmh <= peakRecentSpeed * SPEED_BREAKER_SLOWDOWN;
+    const kind = slowedDown && impact.fix.speedKmh <= SPEED_BREAKER_MAX_KMH ? 'speed_breaker' : 'pothole';
+
+    this.report(kind, severity, impact.peakG, impact.fix, impact.start);
+  }
+
+  private getCurrentFix(timestamp: number, minSpeedKmh: number): FilteredFix | null {
+    const fix = this.lastFix;
+    if (!fix || Math.abs(timestamp - fix.timestamp) > MAX_FIX_AGE_MS) return null;
+    return fix.speedKmh >= minSpeedKmh ? fix : null;
+  }
+
+  private report(kind: RoadHitKind, severity: RoadHit['severity'], g: number, fix: FilteredFix, timestamp: number): void {
+    const cellId = getRoadCellId(fix.lat, fix.lng);
+    const key = `${cellId}|${kind}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+
+    this.onHit({
+      kind,
+      severity,
+      cellId,
+      location: { lat: fix.lat, lng: fix.lng },
+      intensityG: Math.round(g * 100) / 100,
+      speedKmh: Math.round(fix.speedKmh),
+      timestamp,
+    });
+  }
+}
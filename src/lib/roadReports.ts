@@ -0,0 +1,124 @@
+// Crowdsourced road quality reports
+// One report per device, cell and kind: repeat hits on later rides raise its count and
+// severity. Once enough devices report the same cell, the database turns it into a
+// poor_road unsafe zone that every rider is warned about (see the road_quality_reports migration).
+
+import { supabase } from '@/integrations/supabase/client';
+import { getDeviceId } from './deviceId';
+import type { RoadHit, RoadHitKind } from './roadQuality';
+
+const ROAD_REPORTS_KEY = 'kavach_road_reports';
+const MAX_STORED_REPORTS = 500;
+
+const SEVERITY_RANK: Record<RoadHit['severity'], number> = { low: 0, medium: 1, high: 2 };
+
+export interface RoadReport {
+  cellId: string;
+  kind: RoadHitKind;
+  severity: RoadHit['severity']; // worst seen
+  hitCount: number;
+  peakG: number;
+  location: { lat: number; lng: number }; // latest hit
+  lastReported: number;
+  synced: boolean;
+}
+
+function reportKey(cellId: string, kind: RoadHitKind): string {
+  return `${cellId}|${kind}`;
+}
+
+function getStoredReports(): Map<string, RoadReport> {
+  try {
+    const data = localStorage.getItem(ROAD_REPORTS_KEY);
+    if (data) {
+      const arr: RoadReport[] = JSON.parse(data);
+      return new Map(arr.map(r => [reportKey(r.cellId, r.kind), r]));
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  return new Map();
+}
+
+function saveReports(reports: Map<string, RoadReport>): void {
+  try {
+    // Oldest synced reports go first; unsynced ones are kept until they reach the cloud
+    const arr = Array.from(reports.values()).sort((a, b) => b.lastReported - a.lastReported);
+    const unsynced = arr.filter(r => !r.synced);
+    const synced = arr.filter(r => r.synced).slice(0, Math.max(0, MAX_STORED_REPORTS - unsynced.length));
+    localStorage.setItem(ROAD_REPORTS_KEY, JSON.stringify([...unsynced, ...synced]));
+  } catch (e) {
+    console.error('Failed to save road reports:', e);
+  }
+}
+
+export function recordRoadHit(hit: RoadHit): void {
+  const key = reportKey(hit.cellId, hit.kind);
+  const reports = getStoredReports();
+  const existing = reports.get(key);
+
+  const updated: RoadReport = {
+    cellId: hit.cellId,
+    kind: hit.kind,
+    severity: existing && SEVERITY_RANK[existing.severity] > SEVERITY_RANK[hit.severity] ? existing.severity : hit.severity,
+    hitCount: (existing?.hitCount || 0) + 1,
+    peakG: Math.max(existing?.peakG || 0, hit.intensityG),
+    location: hit.location,
+    lastReported: hit.timestamp,
+    synced: false,
+  };
+
+  reports.set(key, updated);
+  saveReports(reports);
+
+  syncReportToCloud(updated);
+}
+
+export function getLocalRoadReports(): RoadReport[] {
+  return Array.from(getStoredReports().values());
+}
+
+async function syncReportToCloud(report: RoadReport): Promise<void> {
+  if (!navigator.onLine) return;
+
+  try {
+    const { error } = await supabase.from('road_quality_reports').upsert({
+      device_id: getDeviceId(),
+      cell_id: report.cellId,
+      report_type: report.kind,
+      severity: report.severity,
+      hit_count: report.hitCount,
+      peak_g: report.peakG,
+      location: report.location,
+      last_reported_at: new Date(report.lastReported).toISOString(),
+    }, {
+      onConflict: 'device_id,cell_id,report_type',
+    });
+
+    if (!error) {
+      const reports = getStoredReports();
+      const key = reportKey(report.cellId, report.kind);
+      const stored = reports.get(key);
+      // A newer hit may have landed while this one was in flight
+      if (stored && stored.hitCount === report.hitCount) {
+        stored.synced = true;
+        saveReports(reports);
+      }
+    }
+  } catch (e) {
+    console.warn('Failed to sync road report:', e);
+  }
+}
+
+export async function syncAllRoadReports(): Promise<void> {
+  if (!navigator.onLine) return;
+
+  const unsynced = getLocalRoadReports().filter(r => !r.synced);
+  for (const report of unsynced) {
+    await syncReportToCloud(report);
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', syncAllRoadReports);
+}
@@ -0,0 +1,142 @@
+// Ride route export - GPX and GeoJSON for insurance claims and audits
+// Track comes from the encoded breadcrumb polyline, risk events become waypoints
+
+import { decodeTrack, type TrackPoint } from './routeTrack';
+
+export type RouteExportFormat = 'gpx' | 'geojson';
+
+export interface ExportableRide {
+  id: string;
+  started_at: string;
+  ended_at?: string | null;
+  route_polyline?: string | null;
+  start_location?: { lat: number; lng: number } | null;
+  end_location?: { lat: number; lng: number } | null;
+}
+
+export interface ExportableRiskEvent {
+  event_type: string;
+  severity: string;
+  message?: string | null;
+  location?: { lat: number; lng: number } | null;
+  created_at: string;
+}
+
+function getTrack(ride: ExportableRide): TrackPoint[] {
+  const startTime = new Date(ride.started_at).getTime();
+  if (ride.route_polyline) {
+    return decodeTrack(ride.route_polyline, startTime);
+  }
+
+  // Rides recorded before breadcrumbs: start and end only
+  const points: TrackPoint[] = [];
+  if (ride.start_location) {
+    points.push({ ...ride.start_location, timestamp: startTime });
+  }
+  if (ride.end_location) {
+    points.push({
+      ...ride.end_location,
+      timestamp: ride.ended_at ? new Date(ride.ended_at).getTime() : startTime,
+    });
+  }
+  return points;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function eventLabel(event: ExportableRiskEvent): string {
+  return event.event_type.replace(/_/g, ' ');
+}
+
+export function buildGpx(ride: ExportableRide, events: ExportableRiskEvent[]): string {
+  const track = getTrack(ride);
+  const waypoints = events.filter(e => e.location);
+
+  const wpt = waypoints.map(e => [
+    `  <wpt lat="${e.location!.lat}" lon="${e.location!.lng}">`,
+    `    <time>${new Date(e.created_at).toISOString()}</time>`,
+    `    <name>${escapeXml(eventLabel(e))}</name>`,
+    e.message ? `    <desc>${escapeXml(e.message)}</desc>` : null,
+    `    <type>${escapeXml(e.severity)}</type>`,
+    '  </wpt>',
+  ].filter(Boolean).join('\n'));
+
+  const trkpt = track.map(p =>
+    `      <trkpt lat="${p.lat}" lon="${p.lng}"><time>${new Date(p.timestamp).toISOString()}</time></trkpt>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Kavach" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>Ride ${escapeXml(ride.id)}</name>`,
+    `    <time>${new Date(ride.started_at).toISOString()}</time>`,
+    '  </metadata>',
+    ...wpt,
+    '  <trk>',
+    `    <name>Ride ${escapeXml(ride.id)}</name>`,
+    '    <trkseg>',
+    ...trkpt,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+export function buildGeoJson(ride: ExportableRide, events: ExportableRiskEvent[]): string {
+  const track = getTrack(ride);
+
+  const features: object[] = [
+    {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: track.map(p => [p.lng, p.lat]),
+      },
+      properties: {
+        rideId: ride.id,
+        startedAt: ride.started_at,
+        endedAt: ride.ended_at ?? null,
+        coordTimes: track.map(p => new Date(p.timestamp).toISOString()),
+      },
+    },
+    ...events.filter(e => e.location).map(e => ({
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [e.location!.lng, e.location!.lat],
+      },
+      properties: {
+        eventType: e.event_type,
+        severity: e.severity,
+        message: e.message ?? null,
+        time: new Date(e.created_at).toISOString(),
+      },
+    })),
+  ];
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+}
+
+export function downloadRideRoute(
+  ride: ExportableRide,
+  events: ExportableRiskEvent[],
+  format: RouteExportFormat
+): void {
+  const content = format === 'gpx' ? buildGpx(ride, events) : buildGeoJson(ride, events);
+  const type = format === 'gpx' ? 'application/gpx+xml' : 'application/geo+json';
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `kavach-ride-${ride.started_at.split('T')[0]}-${ride.id.slice(0, 8)}.${format === 'gpx' ? 'gpx' : 'geojson'}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
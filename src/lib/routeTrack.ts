@@ -0,0 +1,72 @@
+// Route breadcrumb track - compact encoding for storage and sync
+// Uses the encoded polyline algorithm with a third value per point:
+// seconds since ride start, so exports keep the time of every breadcrumb
+
+export interface TrackPoint {
+  lat: number;
+  lng: number;
+  timestamp: number; // ms
+}
+
+// Breadcrumb spacing - enough detail for a claim, small enough for localStorage
+export const BREADCRUMB_MIN_DISTANCE_M = 15;
+export const BREADCRUMB_MAX_INTERVAL_MS = 30000;
+
+const COORD_PRECISION = 1e5;
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let out = '';
+  while (v >= 0x20) {
+    out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return out + String.fromCharCode(v + 63);
+}
+
+export function encodeTrack(points: TrackPoint[], startTime: number): string {
+  let prevLat = 0;
+  let prevLng = 0;
+  let prevSec = 0;
+  let out = '';
+
+  for (const p of points) {
+    const lat = Math.round(p.lat * COORD_PRECISION);
+    const lng = Math.round(p.lng * COORD_PRECISION);
+    const sec = Math.max(0, Math.round((p.timestamp - startTime) / 1000));
+    out += encodeValue(lat - prevLat) + encodeValue(lng - prevLng) + encodeValue(sec - prevSec);
+    prevLat = lat;
+    prevLng = lng;
+    prevSec = sec;
+  }
+
+  return out;
+}
+
+export function decodeTrack(encoded: string, startTime: number): TrackPoint[] {
+  const points: TrackPoint[] = [];
+  const values = [0, 0, 0];
+  let index = 0;
+
+  while (index < encoded.length) {
+    for (let dim = 0; dim < 3; dim++) {
+      let result = 0;
+      let shift = 0;
+      let byte: number;
+      do {
+        byte = encoded.charCodeAt(index++) - 63;
+        result |= (byte & 0x1f) << shift;
+        shift += 5;
+      } while (byte >= 0x20 && index < encoded.length);
+      values[dim] += result & 1 ? ~(result >> 1) : result >> 1;
+    }
+
+    points.push({
+      lat: values[0] / COORD_PRECISION,
+      lng: values[1] / COORD_PRECISION,
+      timestamp: startTime + values[2] * 1000,
+    });
+  }
+
+  return points;
+}
@@ -10,7 +10,7 @@ export interface RideScore {
   id: string;
   ride_session_id: string;
   timestamp: string;
-  smoothness: number; // 0-100 based on acceleration variance
+  smoothness: number; // 0-100 based on acceleration variance and harsh driving events
   compliance: number; // 0-100 based on following speed limits
   heatExposure: number; // 0-100 inverse of heat exposure time
   interventionResponse: number; // 0-100 based on responding to warnings
@@ -93,10 +93,28 @@ export function calculateRideScore(
     totalWarnings: number;
     harshWeatherMinutes?: number; // time riding in challenging weather
     weatherAlertsHeeded?: number; // weather alerts that led to rest
+    harshBrakingEvents?: number;
+    harshAccelerationEvents?: number;
+    sharpCorneringEvents?: number;
   }
 ): RideScore {
   // Calculate component scores (0-100, higher is better)
-  const smoothness = Math.max(0, Math.min(100, 100 - (metrics.accelerationVariance * 10)));
+  const varianceSmoothness = Math.max(0, Math.min(100, 100 - (metrics.accelerationVariance * 10)));
+  
+  // Harsh driving events per hour are the stronger signal when we have them
+  const harshEvents = metrics.harshBrakingEvents === undefined &&
+    metrics.harshAccelerationEvents === undefined &&
+    metrics.sharpCorneringEvents === undefined
+    ? null
+    : (metrics.harshBrakingEvents || 0) +
+      (metrics.sharpCorneringEvents || 0) +
+      (metrics.harshAccelerationEvents || 0) * 0.5; // acceleration is the weakest predictor
+  const harshPerHour = harshEvents !== null
+    ? harshEvents / Math.max(10, metrics.totalMinutes) * 60 // short rides count as 10 min
+    : 0;
+  const smoothness = harshEvents === null
+    ? varianceSmoothness
+    : varianceSmoothness * 0.4 + Math.max(0, 100 - harshPerHour * 10) * 0.6;
   
   const complianceRatio = metrics.totalMinutes > 0 
     ? 1 - (metrics.speedViolations / Math.max(1, metrics.totalMinutes))
@@ -0,0 +1,351 @@
+// Shared sensor hub - one motion and one orientation listener for every detector
+// Samples are normalized to a fixed frame rate from event.interval and kept in ring buffers.
+// Detectors subscribe to frames or to windowed features (variance, peak, jerk) instead of raw events.
+
+import { browserSensorSource, type MotionSample, type OrientationSample, type SensorSource } from './sensorSource';
+
+export const FRAME_RATE_HZ = 50;
+const FRAME_MS = 1000 / FRAME_RATE_HZ;
+const BUFFER_SECONDS = 60; // Longest window any detector asks for
+
+export interface MotionFrame {
+  timestamp: number;
+  magnitude: number; // mean |acceleration incl. gravity| over the frame, m/s²
+  peakMagnitude: number; // max within the frame, so impacts survive decimation
+  linear: number | null; // mean |acceleration without gravity|, m/s² (null if the device doesn't report it)
+  peakLinear: number | null;
+  delta: number; // largest sample-to-sample change in the acceleration vector, m/s²
+  lateral: number; // mean side-to-side acceleration incl. gravity (device x axis), m/s²
+}
+
+// magnitude/linear/lateral: accelerometer, m/s². tilt: |beta| + |gamma|, degrees.
+// roll: signed gamma, degrees - the bike's lean with the phone upright in its mount.
+export type SensorChannel = 'magnitude' | 'linear' | 'lateral' | 'tilt' | 'roll';
+
+function isOrientationChannel(channel: SensorChannel): boolean {
+  return channel === 'tilt' || channel === 'roll';
+}
+
+export interface WindowFeatures {
+  count: number;
+  mean: number;
+  variance: number;
+  std: number;
+  peak: number;
+  jerk: number; // largest rate of change between frames, units per second
+}
+
+export interface FeatureSubscription {
+  channel: SensorChannel;
+  windowMs: number;
+  everyMs?: number; // how often to deliver, defaults to every frame
+}
+
+// Fixed-capacity FIFO - overwrites the oldest entry instead of shifting an array
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private length = 0;
+
+  constructor(private capacity: number) {
+    this.items = new Array(capacity);
+  }
+
+  push(item: T): void {
+    const index = (this.start + this.length) % this.capacity;
+    this.items[index] = item;
+    if (this.length < this.capacity) {
+      this.length++;
+    } else {
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  size(): number {
+    return this.length;
+  }
+
+  last(): T | undefined {
+    return this.length > 0 ? this.items[(this.start + this.length - 1) % this.capacity] : undefined;
+  }
+
+  clear(): void {
+    this.items = new Array(this.capacity);
+    this.start = 0;
+    this.length = 0;
+  }
+
+  // Newest entries while keep() holds, returned oldest first
+  takeLastWhile(keep: (item: T) => boolean): T[] {
+    const result: T[] = [];
+    for (let i = this.length - 1; i >= 0; i--) {
+      const item = this.items[(this.start + i) % this.capacity] as T;
+      if (!keep(item)) break;
+      result.push(item);
+    }
+    return result.reverse();
+  }
+}
+
+interface PendingFrame {
+  count: number;
+  magnitudeSum: number;
+  peakMagnitude: number;
+  linearSum: number;
+  linearCount: number;
+  peakLinear: number;
+  maxDelta: number;
+  lateralSum: number;
+  elapsedMs: number;
+}
+
+interface TiltFrame {
+  timestamp: number;
+  tilt: number;
+  roll: number;
+}
+
+interface FeatureSubscriber {
+  options: FeatureSubscription;
+  listener: (features: WindowFeatures, timestamp: number) => void;
+  lastDelivered: number;
+}
+
+function emptyPending(elapsedMs = 0): PendingFrame {
+  return {
+    count: 0,
+    magnitudeSum: 0,
+    peakMagnitude: 0,
+    linearSum: 0,
+    linearCount: 0,
+    peakLinear: 0,
+    maxDelta: 0,
+    lateralSum: 0,
+    elapsedMs,
+  };
+}
+
+export function computeFeatures(points: { timestamp: number; value: number }[], peaks?: number[]): WindowFeatures | null {
+  if (points.length === 0) return null;
+
+  const n = points.length;
+  const mean = points.reduce((sum, p) => sum + p.value, 0) / n;
+  const variance = points.reduce((sum, p) => sum + (p.value - mean) ** 2, 0) / n;
+
+  let jerk = 0;
+  for (let i = 1; i < n; i++) {
+    const dt = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+    if (dt > 0) jerk = Math.max(jerk, Math.abs(points[i].value - points[i - 1].value) / dt);
+  }
+
+  return {
+    count: n,
+    mean,
+    variance,
+    std: Math.sqrt(variance),
+    peak: (peaks ?? points.map(p => p.value)).reduce((max, v) => Math.max(max, v), 0),
+    jerk,
+  };
+}
+
+export class SensorHub {
+  private motionFrames = new RingBuffer<MotionFrame>(FRAME_RATE_HZ * BUFFER_SECONDS);
+  private tiltFrames = new RingBuffer<TiltFrame>(FRAME_RATE_HZ * BUFFER_SECONDS);
+  private pending = emptyPending();
+  private lastVector: { x: number; y: number; z: number } | null = null;
+  private lastSampleTime: number | null = null;
+  private lastOrientationFrame = 0;
+
+  private frameListeners = new Set<(frame: MotionFrame) => void>();
+  private orientationListeners = new Set<(sample: OrientationSample) => void>();
+  private featureSubscribers = new Set<FeatureSubscriber>();
+  private removeMotionListener: (() => void) | null = null;
+  private removeOrientationListener: (() => void) | null = null;
+
+  constructor(private source: SensorSource = browserSensorSource) {}
+
+  // Normalized accelerometer frames, FRAME_RATE_HZ at most
+  subscribeFrames(listener: (frame: MotionFrame) => void): () => void {
+    this.frameListeners.add(listener);
+    this.attach();
+    return () => {
+      this.frameListeners.delete(listener);
+      this.detachIfIdle();
+    };
+  }
+
+  // Orientation, decimated to the same frame rate
+  subscribeOrientation(listener: (sample: OrientationSample) => void): () => void {
+    this.orientationListeners.add(listener);
+    this.attach();
+    return () => {
+      this.orientationListeners.delete(listener);
+      this.detachIfIdle();
+    };
+  }
+
+  // Windowed features of one channel, delivered as frames arrive
+  subscribe(
+    options: FeatureSubscription,
+    listener: (features: WindowFeatures, timestamp: number) => void
+  ): () => void {
+    const subscriber: FeatureSubscriber = { options, listener, lastDelivered: 0 };
+    this.featureSubscribers.add(subscriber);
+    this.attach();
+    return () => {
+      this.featureSubscribers.delete(subscriber);
+      this.detachIfIdle();
+    };
+  }
+
+  // Channel values over the last windowMs, oldest first
+  getWindow(channel: SensorChannel, windowMs: number): { timestamp: number; value: number }[] {
+    if (isOrientationChannel(channel)) {
+      const newest = this.tiltFrames.last();
+      if (!newest) return [];
+      return this.tiltFrames
+        .takeLastWhile(f => newest.timestamp - f.timestamp <= windowMs)
+        .map(f => ({ timestamp: f.timestamp, value: channel === 'tilt' ? f.tilt : f.roll }));
+    }
+
+    const newest = this.motionFrames.last();
+    if (!newest) return [];
+    const frames = this.motionFrames.takeLastWhile(f => newest.timestamp - f.timestamp <= windowMs);
+    if (channel === 'lateral') return frames.map(f => ({ timestamp: f.timestamp, value: f.lateral }));
+    return frames
+      .filter(f => channel === 'magnitude' || f.linear !== null)
+      .map(f => ({ timestamp: f.timestamp, value: channel === 'magnitude' ? f.magnitude : f.linear! }));
+  }
+
+  getFeatures(channel: SensorChannel, windowMs: number): WindowFeatures | null {
+    const points = this.getWindow(channel, windowMs);
+    if (isOrientationChannel(channel) || channel === 'lateral') return computeFeatures(points);
+
+    // Peak from the per-frame maxima, not the frame means
+    const newest = this.motionFrames.last();
+    const frames = newest
+      ? this.motionFrames.takeLastWhile(f => newest.timestamp - f.timestamp <= windowMs)
+      : [];
+    const peaks = channel === 'magnitude'
+      ? frames.map(f => f.peakMagnitude)
+      : frames.filter(f => f.peakLinear !== null).map(f => f.peakLinear!);
+    return computeFeatures(points, peaks);
+  }
+
+  private attach(): void {
+    if (this.removeMotionListener) return;
+    this.removeMotionListener = this.source.addMotionListener(this.handleMotion.bind(this));
+    this.removeOrientationListener = this.source.addOrientationListener(this.handleOrientation.bind(this));
+  }
+
+  private detachIfIdle(): void {
+    if (this.frameListeners.size > 0 || this.orientationListeners.size > 0 || this.featureSubscribers.size > 0) return;
+
+    this.removeMotionListener?.();
+    this.removeOrientationListener?.();
+    this.removeMotionListener = null;
+    this.removeOrientationListener = null;
+
+    this.motionFrames.clear();
+    this.tiltFrames.clear();
+    this.pending = emptyPending();
+    this.lastVector = null;
+    this.lastSampleTime = null;
+    this.lastOrientationFrame = 0;
+  }
+
+  private handleMotion(sample: MotionSample): void {
+    const acc = sample.accelerationIncludingGravity;
+    if (!acc) return;
+
+    const magnitude = Math.sqrt(acc.x ** 2 + acc.y ** 2 + acc.z ** 2);
+    const delta = this.lastVector
+      ? Math.sqrt(
+          (acc.x - this.lastVector.x) ** 2 +
+          (acc.y - this.lastVector.y) ** 2 +
+          (acc.z - this.lastVector.z) ** 2
+        )
+      : 0;
+    this.lastVector = { x: acc.x, y: acc.y, z: acc.z };
+
+    // Device-reported interval where available - timestamps jitter with the event loop
+    const dt = sample.interval > 0
+      ? sample.interval
+      : this.lastSampleTime !== null ? sample.timestamp - this.lastSampleTime : FRAME_MS;
+    this.lastSampleTime = sample.timestamp;
+
+    const p = this.pending;
+    p.count++;
+    p.magnitudeSum += magnitude;
+    p.peakMagnitude = Math.max(p.peakMagnitude, magnitude);
+    p.maxDelta = Math.max(p.maxDelta, delta);
+    p.lateralSum += acc.x;
+    p.elapsedMs += dt;
+
+    const lin = sample.acceleration;
+    if (lin) {
+      const linear = Math.sqrt(lin.x ** 2 + lin.y ** 2 + lin.z ** 2);
+      p.linearCount++;
+      p.linearSum += linear;
+      p.peakLinear = Math.max(p.peakLinear, linear);
+    }
+
+    if (p.elapsedMs < FRAME_MS) return;
+
+    // Slower sensors get one frame per sample - no upsampling
+    this.pending = emptyPending(Math.min(p.elapsedMs - FRAME_MS, FRAME_MS));
+    this.emitFrame({
+      timestamp: sample.timestamp,
+      magnitude: p.magnitudeSum / p.count,
+      peakMagnitude: p.peakMagnitude,
+      linear: p.linearCount > 0 ? p.linearSum / p.linearCount : null,
+      peakLinear: p.linearCount > 0 ? p.peakLinear : null,
+      delta: p.maxDelta,
+      lateral: p.lateralSum / p.count,
+    });
+  }
+
+  private emitFrame(frame: MotionFrame): void {
+    this.motionFrames.push(frame);
+    this.frameListeners.forEach(listener => listener(frame));
+    this.deliverFeatures(frame.timestamp, channel => !isOrientationChannel(channel));
+  }
+
+  private handleOrientation(sample: OrientationSample): void {
+    if (sample.timestamp - this.lastOrientationFrame < FRAME_MS) return;
+    this.lastOrientationFrame = sample.timestamp;
+
+    this.tiltFrames.push({
+      timestamp: sample.timestamp,
+      tilt: Math.abs(sample.beta || 0) + Math.abs(sample.gamma || 0),
+      roll: sample.gamma || 0,
+    });
+    this.orientationListeners.forEach(listener => listener(sample));
+    this.deliverFeatures(sample.timestamp, isOrientationChannel);
+  }
+
+  private deliverFeatures(timestamp: number, matches: (channel: SensorChannel) => boolean): void {
+    this.featureSubscribers.forEach(subscriber => {
+      const { channel, windowMs, everyMs = 0 } = subscriber.options;
+      if (!matches(channel) || timestamp - subscriber.lastDelivered < everyMs) return;
+
+      const features = this.getFeatures(channel, windowMs);
+      if (!features) return;
+      subscriber.lastDelivered = timestamp;
+      subscriber.listener(features, timestamp);
+    });
+  }
+}
+
+// One hub per sensor source, so the live monitors share the browser listeners
+// and a replay's monitors share the replayed samples
+const hubs = new WeakMap<SensorSource, SensorHub>();
+
+export function getSensorHub(source: SensorSource = browserSensorSource): SensorHub {
+  let hub = hubs.get(source);
+  if (!hub) {
+    hub = new SensorHub(source);
+    hubs.set(source, hub);
+  }
+  return hub;
+}
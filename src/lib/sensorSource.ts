@@ -0,0 +1,161 @@
+// Sensor source abstraction - single entry point for GPS, motion and clock
+// Monitors read sensors through a SensorSource so a recorded ride can be replayed
+
+export interface Vector3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MotionSample {
+  timestamp: number;
+  accelerationIncludingGravity: Vector3 | null;
+  acceleration: Vector3 | null;
+  rotationRate: { alpha: number; beta: number; gamma: number } | null;
+  interval: number; // ms between samples as reported by the device
+}
+
+export interface OrientationSample {
+  timestamp: number;
+  alpha: number | null;
+  beta: number | null;
+  gamma: number | null;
+}
+
+// Plain copy of a GeolocationPosition's coords - live positions can't be serialized or posted to a worker
+export interface PositionCoords {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  altitude: number | null;
+  altitudeAccuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+}
+
+export function toPositionCoords(position: GeolocationPosition): PositionCoords {
+  const c = position.coords;
+  return {
+    latitude: c.latitude,
+    longitude: c.longitude,
+    accuracy: c.accuracy,
+    altitude: c.altitude,
+    altitudeAccuracy: c.altitudeAccuracy,
+    heading: c.heading,
+    speed: c.speed,
+  };
+}
+
+export function fromPositionCoords(timestamp: number, coords: PositionCoords): GeolocationPosition {
+  return { timestamp, coords } as unknown as GeolocationPosition;
+}
+
+export function toPositionError(code: number, message: string): GeolocationPositionError {
+  return {
+    code,
+    message,
+    PERMISSION_DENIED: 1,
+    POSITION_UNAVAILABLE: 2,
+    TIMEOUT: 3,
+  } as GeolocationPositionError;
+}
+
+export interface SensorSource {
+  now(): number;
+  getCurrentPosition(options?: PositionOptions): Promise<GeolocationPosition>;
+  watchPosition(
+    onPosition: (position: GeolocationPosition) => void,
+    onError: (error: GeolocationPositionError) => void,
+    options?: PositionOptions
+  ): number;
+  clearWatch(watchId: number): void;
+  addMotionListener(listener: (sample: MotionSample) => void): () => void;
+  addOrientationListener(listener: (sample: OrientationSample) => void): () => void;
+  setInterval(callback: () => void, ms: number): number;
+  clearInterval(id: number): void;
+  setTimeout(callback: () => void, ms: number): number;
+  clearTimeout(id: number): void;
+}
+
+// Normalize a browser vector, treating a missing x axis as "no reading"
+function toVector(v: DeviceMotionEventAcceleration | null): Vector3 | null {
+  if (!v || v.x === null) return null;
+  return { x: v.x || 0, y: v.y || 0, z: v.z || 0 };
+}
+
+// Live browser sensors and wall clock
+class BrowserSensorSource implements SensorSource {
+  now(): number {
+    return Date.now();
+  }
+
+  getCurrentPosition(options?: PositionOptions): Promise<GeolocationPosition> {
+    return new Promise<GeolocationPosition>((resolve, reject) => {
+      navigator.geolocation.getCurrentPosition(resolve, reject, options);
+    });
+  }
+
+  watchPosition(
+    onPosition: (position: GeolocationPosition) => void,
+    onError: (error: GeolocationPositionError) => void,
+    options?: PositionOptions
+  ): number {
+    return navigator.geolocation.watchPosition(onPosition, onError, options);
+  }
+
+  clearWatch(watchId: number): void {
+    navigator.geolocation.clearWatch(watchId);
+  }
+
+  addMotionListener(listener: (sample: MotionSample) => void): () => void {
+    if (!('DeviceMotionEvent' in window)) return () => {};
+
+    const handler = (event: DeviceMotionEvent) => {
+      const rate = event.rotationRate;
+      listener({
+        timestamp: Date.now(),
+        accelerationIncludingGravity: toVector(event.accelerationIncludingGravity),
+        acceleration: toVector(event.acceleration),
+        rotationRate: rate ? { alpha: rate.alpha || 0, beta: rate.beta || 0, gamma: rate.gamma || 0 } : null,
+        interval: event.interval || 0,
+      });
+    };
+
+    window.addEventListener('devicemotion', handler);
+    return () => window.removeEventListener('devicemotion', handler);
+  }
+
+  addOrientationListener(listener: (sample: OrientationSample) => void): () => void {
+    if (!('DeviceOrientationEvent' in window)) return () => {};
+
+    const handler = (event: DeviceOrientationEvent) => {
+      listener({
+        timestamp: Date.now(),
+        alpha: event.alpha,
+        beta: event.beta,
+        gamma: event.gamma,
+      });
+    };
+
+    window.addEventListener('deviceorientation', handler);
+    return () => window.removeEventListener('deviceorientation', handler);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return window.setInterval(callback, ms);
+  }
+
+  clearInterval(id: number): void {
+    window.clearInterval(id);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return window.setTimeout(callback, ms);
+  }
+
+  clearTimeout(id: number): void {
+    window.clearTimeout(id);
+  }
+}
+
+export const browserSensorSource: SensorSource = new BrowserSensorSource();
@@ -0,0 +1,375 @@
+// Sensor trace recording and deterministic replay
+// Records raw GPS fixes and motion samples during a ride, then replays them
+// through fresh monitors on a virtual clock to reproduce field behaviour
+
+import {
+  browserSensorSource,
+  fromPositionCoords,
+  toPositionCoords,
+  toPositionError,
+  type MotionSample,
+  type OrientationSample,
+  type PositionCoords,
+  type SensorSource,
+} from './sensorSource';
+import type { RiskEvent } from './rideMonitor';
+import { RideProcessor } from './rideProcessor';
+import { rideEngine } from './rideEngine';
+
+const SETTINGS_KEY = 'kavach_settings';
+const TRACE_VERSION = 1;
+
+export type TracePosition = PositionCoords;
+
+export type TraceSample =
+  | { kind: 'position'; t: number; via: 'current' | 'watch'; timestamp: number; coords: TracePosition }
+  | { kind: 'position_error'; t: number; code: number; message: string }
+  | { kind: 'motion'; t: number; sample: MotionSample }
+  | { kind: 'orientation'; t: number; sample: OrientationSample };
+
+export interface SensorTrace {
+  version: number;
+  recordedAt: string;
+  startTime: number;
+  endTime: number;
+  samples: TraceSample[];
+}
+
+export interface FatigueScoreSample {
+  timestamp: number;
+  fatigueScore: number;
+  panicScore: number;
+}
+
+export interface TraceReplayResult {
+  riskEvents: RiskEvent[];
+  fatigueScores: FatigueScoreSample[];
+  distanceTraveled: number;
+  startTime: number;
+  durationMs: number;
+}
+
+// Wraps a live source and records everything that passes through it
+export class SensorTraceRecorder implements SensorSource {
+  private samples: TraceSample[] = [];
+  private startTime = 0;
+  private stopRecording: (() => void)[] = [];
+
+  constructor(private inner: SensorSource = browserSensorSource) {}
+
+  start(): void {
+    this.samples = [];
+    this.startTime = this.inner.now();
+
+    // One recording listener per sensor, however many monitors subscribe
+    this.stopRecording = [
+      this.inner.addMotionListener((sample) => {
+        this.samples.push({ kind: 'motion', t: sample.timestamp, sample });
+      }),
+      this.inner.addOrientationListener((sample) => {
+        this.samples.push({ kind: 'orientation', t: sample.timestamp, sample });
+      }),
+    ];
+  }
+
+  stop(): SensorTrace {
+    this.stopRecording.forEach(remove => remove());
+    this.stopRecording = [];
+
+    return {
+      version: TRACE_VERSION,
+      recordedAt: new Date(this.startTime).toISOString(),
+      startTime: this.startTime,
+      endTime: this.inner.now(),
+      samples: this.samples,
+    };
+  }
+
+  private recordPosition(position: GeolocationPosition, via: 'current' | 'watch'): void {
+    this.samples.push({
+      kind: 'position',
+      t: this.inner.now(),
+      via,
+      timestamp: position.timestamp,
+      coords: toPositionCoords(position),
+    });
+  }
+
+  private recordError(error: GeolocationPositionError): void {
+    this.samples.push({ kind: 'position_error', t: this.inner.now(), code: error.code, message: error.message });
+  }
+
+  now(): number {
+    return this.inner.now();
+  }
+
+  async getCurrentPosition(options?: PositionOptions): Promise<GeolocationPosition> {
+    try {
+      const position = await this.inner.getCurrentPosition(options);
+      this.recordPosition(position, 'current');
+      return position;
+    } catch (error) {
+      this.recordError(error as GeolocationPositionError);
+      throw error;
+    }
+  }
+
+  watchPosition(
+    onPosition: (position: GeolocationPosition) => void,
+    onError: (error: GeolocationPositionError) => void,
+    options?: PositionOptions
+  ): number {
+    return this.inner.watchPosition(
+      (position) => {
+        this.recordPosition(position, 'watch');
+        onPosition(position);
+      },
+      (error) => {
+        this.recordError(error);
+        onError(error);
+      },
+      options
+    );
+  }
+
+  clearWatch(watchId: number): void {
+    this.inner.clearWatch(watchId);
+  }
+
+  addMotionListener(listener: (sample: MotionSample) => void): () => void {
+    return this.inner.addMotionListener(listener);
+  }
+
+  addOrientationListener(listener: (sample: OrientationSample) => void): () => void {
+    return this.inner.addOrientationListener(listener);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return this.inner.setInterval(callback, ms);
+  }
+
+  clearInterval(id: number): void {
+    this.inner.clearInterval(id);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return this.inner.setTimeout(callback, ms);
+  }
+
+  clearTimeout(id: number): void {
+    this.inner.clearTimeout(id);
+  }
+}
+
+interface VirtualTimer {
+  id: number;
+  due: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+// Feeds a recorded trace to subscribers on a virtual clock
+export class ReplaySensorSource implements SensorSource {
+  private currentTime: number;
+  private nextId = 1;
+  private timers: VirtualTimer[] = [];
+  private watchers = new Map<number, {
+    onPosition: (position: GeolocationPosition) => void;
+    onError: (error: GeolocationPositionError) => void;
+  }>();
+  private motionListeners = new Set<(sample: MotionSample) => void>();
+  private orientationListeners = new Set<(sample: OrientationSample) => void>();
+
+  constructor(private trace: SensorTrace) {
+    this.currentTime = trace.startTime;
+  }
+
+  now(): number {
+    return this.currentTime;
+  }
+
+  async getCurrentPosition(): Promise<GeolocationPosition> {
+    const fix = this.trace.samples.find(s => s.kind === 'position' && s.via === 'current')
+      || this.trace.samples.find(s => s.kind === 'position');
+
+    if (!fix || fix.kind !== 'position') {
+      throw toPositionError(2, 'Trace contains no position fixes');
+    }
+
+    this.currentTime = Math.max(this.currentTime, fix.t);
+    return fromPositionCoords(fix.timestamp, fix.coords);
+  }
+
+  watchPosition(
+    onPosition: (position: GeolocationPosition) => void,
+    onError: (error: GeolocationPositionError) => void
+  ): number {
+    const id = this.nextId++;
+    this.watchers.set(id, { onPosition, onError });
+    return id;
+  }
+
+  clearWatch(watchId: number): void {
+    this.watchers.delete(watchId);
+  }
+
+  addMotionListener(listener: (sample: MotionSample) => void): () => void {
+    this.motionListeners.add(listener);
+    return () => this.motionListeners.delete(listener);
+  }
+
+  addOrientationListener(listener: (sample: OrientationSample) => void): () => void {
+    this.orientationListeners.add(listener);
+    return () => this.orientationListeners.delete(listener);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.currentTime + ms, interval: ms, callback });
+    return id;
+  }
+
+  clearInterval(id: number): void {
+    this.timers = this.timers.filter(t => t.id !== id);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const id = this.nextId++;
+    this.timers.push({ id, due: this.currentTime + ms, interval: null, callback });
+    return id;
+  }
+
+  clearTimeout(id: number): void {
+    this.clearInterval(id);
+  }
+
+  // Fire every timer due up to `time`, in due order, then move the clock there
+  advanceTo(time: number): void {
+    for (;;) {
+      const next = this.timers
+        .filter(t => t.due <= time)
+        .sort((a, b) => a.due - b.due || a.id - b.id)[0];
+      if (!next) break;
+
+      this.currentTime = Math.max(this.currentTime, next.due);
+      if (next.interval !== null) {
+        next.due += Math.max(1, next.interval);
+      } else {
+        this.timers = this.timers.filter(t => t.id !== next.id);
+      }
+      next.callback();
+    }
+
+    this.currentTime = Math.max(this.currentTime, time);
+  }
+
+  // Dispatch every recorded sample after the current clock, then run to the end
+  run(): void {
+    for (const sample of this.trace.samples) {
+      if (sample.t < this.currentTime) continue;
+      if (sample.kind === 'position' && sample.via === 'current') continue;
+
+      this.advanceTo(sample.t);
+
+      switch (sample.kind) {
+        case 'position':
+          this.watchers.forEach(w => w.onPosition(fromPositionCoords(sample.timestamp, sample.coords)));
+          break;
+        case 'position_error':
+          this.watchers.forEach(w => w.onError(toPositionError(sample.code, sample.message)));
+          break;
+        case 'motion':
+          this.motionListeners.forEach(l => l(sample.sample));
+          break;
+        case 'orientation':
+          this.orientationListeners.forEach(l => l(sample.sample));
+          break;
+      }
+    }
+
+    this.advanceTo(this.trace.endTime);
+  }
+}
+
+// Replay a trace through fresh, muted monitors. Same trace in, same result out.
+export async function replaySensorTrace(trace: SensorTrace): Promise<TraceReplayResult> {
+  const source = new ReplaySensorSource(trace);
+  const processor = new RideProcessor(source, true);
+
+  const riskEvents: RiskEvent[] = [];
+  const fatigueScores: FatigueScoreSample[] = [];
+
+  processor.monitor.setRiskEventHandler(event => riskEvents.push(event));
+  processor.fatigue.setFatigueUpdateHandler(state => fatigueScores.push({
+    timestamp: source.now(),
+    fatigueScore: state.fatigueScore,
+    panicScore: state.panicScore,
+  }));
+
+  const started = await processor.start();
+  if (!started) {
+    throw new Error('Replay failed: trace has no starting position');
+  }
+
+  source.run();
+
+  const finalState = processor.stop().ride;
+  const startTime = finalState.startTime ?? trace.startTime;
+
+  return {
+    riskEvents,
+    fatigueScores,
+    distanceTraveled: finalState.distanceTraveled,
+    startTime,
+    durationMs: trace.endTime - startTime,
+  };
+}
+
+export function parseSensorTrace(json: string): SensorTrace {
+  const trace = JSON.parse(json) as SensorTrace;
+  if (trace.version !== TRACE_VERSION || !Array.isArray(trace.samples)) {
+    throw new Error('Unsupported sensor trace format');
+  }
+  return trace;
+}
+
+export function downloadSensorTrace(trace: SensorTrace): void {
+  const blob = new Blob([JSON.stringify(trace)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `kavach-trace-${trace.recordedAt.replace(/[:.]/g, '-')}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Ride trace recording for the live ride engine (toggled in Settings)
+let activeRecorder: SensorTraceRecorder | null = null;
+
+export function isTraceRecordingEnabled(): boolean {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? JSON.parse(saved).recordSensorTrace === true : false;
+  } catch {
+    return false;
+  }
+}
+
+// Call before the ride starts so every sample goes through the recorder
+export function startTraceRecording(): void {
+  if (activeRecorder) return;
+
+  activeRecorder = new SensorTraceRecorder(browserSensorSource);
+  activeRecorder.start();
+  rideEngine.setSensorSource(activeRecorder);
+}
+
+// Call after the ride stops
+export function stopTraceRecording(): SensorTrace | null {
+  if (!activeRecorder) return null;
+
+  const trace = activeRecorder.stop();
+  activeRecorder = null;
+  rideEngine.setSensorSource(browserSensorSource);
+  return trace;
+}
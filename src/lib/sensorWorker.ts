@@ -0,0 +1,205 @@
+// Sensor worker - signal processing and risk rules off the UI thread
+// A busy render can't delay a fall alert: the UI thread only forwards samples and
+// gets back risk events, alerts and periodic snapshots (see sensorWorkerProtocol)
+
+import {
+  fromPositionCoords,
+  toPositionError,
+  type MotionSample,
+  type OrientationSample,
+  type SensorSource,
+} from './sensorSource';
+import { RideProcessor } from './rideProcessor';
+import { unsafeZoneCache } from './unsafeZones';
+import type { SensorWorkerRequest, SensorWorkerResponse } from './sensorWorkerProtocol';
+
+const SNAPSHOT_INTERVAL_MS = 1000;
+
+// The DOM lib types `self` as a Window; in here it's the worker scope
+const scope = self as unknown as {
+  postMessage(message: SensorWorkerResponse): void;
+  onmessage: ((event: MessageEvent<SensorWorkerRequest>) => void) | null;
+};
+
+function post(message: SensorWorkerResponse): void {
+  scope.postMessage(message);
+}
+
+// Sensor source fed by messages from the UI thread
+class WorkerSensorSource implements SensorSource {
+  private startPosition: GeolocationPosition | null = null;
+  private nextWatchId = 1;
+  private watchers = new Map<number, {
+    onPosition: (position: GeolocationPosition) => void;
+    onError: (error: GeolocationPositionError) => void;
+  }>();
+  private motionListeners = new Set<(sample: MotionSample) => void>();
+  private orientationListeners = new Set<(sample: OrientationSample) => void>();
+
+  // The UI thread asks for the first fix itself, so the permission prompt shows there
+  setStartPosition(position: GeolocationPosition): void {
+    this.startPosition = position;
+  }
+
+  now(): number {
+    return Date.now();
+  }
+
+  async getCurrentPosition(): Promise<GeolocationPosition> {
+    if (!this.startPosition) {
+      throw toPositionError(2, 'No starting position from the UI thread');
+    }
+    return this.startPosition;
+  }
+
+  watchPosition(
+    onPosition: (position: GeolocationPosition) => void,
+    onError: (error: GeolocationPositionError) => void,
+    options?: PositionOptions
+  ): number {
+    const watchId = this.nextWatchId++;
+    this.watchers.set(watchId, { onPosition, onError });
+    post({ type: 'watch_position', watchId, options });
+    return watchId;
+  }
+
+  clearWatch(watchId: number): void {
+    this.watchers.delete(watchId);
+    post({ type: 'clear_watch', watchId });
+  }
+
+  addMotionListener(listener: (sample: MotionSample) => void): () => void {
+    this.motionListeners.add(listener);
+    return () => this.motionListeners.delete(listener);
+  }
+
+  addOrientationListener(listener: (sample: OrientationSample) => void): () => void {
+    this.orientationListeners.add(listener);
+    return () => this.orientationListeners.delete(listener);
+  }
+
+  setInterval(callback: () => void, ms: number): number {
+    return setInterval(callback, ms) as unknown as number;
+  }
+
+  clearInterval(id: number): void {
+    clearInterval(id);
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    return setTimeout(callback, ms) as unknown as number;
+  }
+
+  clearTimeout(id: number): void {
+    clearTimeout(id);
+  }
+
+  dispatchPosition(watchId: number, position: GeolocationPosition): void {
+    this.watchers.get(watchId)?.onPosition(position);
+  }
+
+  dispatchError(watchId: number, error: GeolocationPositionError): void {
+    this.watchers.get(watchId)?.onError(error);
+  }
+
+  dispatchSamples(motion: MotionSample[], orientation: OrientationSample[]): void {
+    // Interleave by timestamp, in the order the UI thread saw them
+    let m = 0;
+    let o = 0;
+    while (m < motion.length || o < orientation.length) {
+      if (o >= orientation.length || (m < motion.length && motion[m].timestamp <= orientation[o].timestamp)) {
+        const sample = motion[m++];
+        this.motionListeners.forEach(l => l(sample));
+      } else {
+        const sample = orientation[o++];
+        this.orientationListeners.forEach(l => l(sample));
+      }
+    }
+  }
+}
+
+const source = new WorkerSensorSource();
+let processor: RideProcessor | null = null;
+let snapshotInterval: number | null = null;
+
+function postSnapshot(): void {
+  if (processor) post({ type: 'snapshot', snapshot: processor.getSnapshot() });
+}
+
+async function start(request: Extract<SensorWorkerRequest, { type: 'start' }>): Promise<void> {
+  if (processor) {
+    post({ type: 'started', requestId: request.requestId, ok: true });
+    return;
+  }
+
+  source.setStartPosition(fromPositionCoords(request.position.timestamp, request.position.coords));
+  const next = new RideProcessor(source, true);
+
+  next.monitor.setRiskEventHandler(event => {
+    // Snapshot first, so the UI scores the event against up-to-date ride state
+    postSnapshot();
+    post({ type: 'risk_event', event });
+  });
+  next.monitor.setAlertHandler(event => post({ type: 'alert', event }));
+  next.monitor.setRoadHitHandler(hit => post({ type: 'road_hit', hit }));
+  next.monitor.setKnownPlaces(request.places);
+  next.monitor.setStopCounts(request.stopCounts);
+  next.monitor.setStopClosedHandler(segment => post({ type: 'stop_closed', segment }));
+  next.fatigue.setShiftContext(request.shift);
+  next.fatigue.setFatigueBaseline(request.baseline);
+  next.fatigue.setNudgeHandler((level, vibrate) => post({ type: 'nudge', level, vibrate }));
+
+  const ok = await next.start(request.profile);
+  if (ok) {
+    processor = next;
+    processor.monitor.setBatteryStatus(request.battery);
+    snapshotInterval = source.setInterval(postSnapshot, SNAPSHOT_INTERVAL_MS);
+    postSnapshot();
+  }
+  post({ type: 'started', requestId: request.requestId, ok });
+}
+
+function stop(requestId: number): void {
+  if (snapshotInterval !== null) {
+    source.clearInterval(snapshotInterval);
+    snapshotInterval = null;
+  }
+
+  const result = processor ? processor.stop() : null;
+  processor = null;
+  post({ type: 'stopped', requestId, result });
+}
+
+scope.onmessage = (event) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'start':
+      start(message);
+      break;
+    case 'stop':
+      stop(message.requestId);
+      break;
+    case 'position':
+      source.dispatchPosition(
+        message.watchId,
+        fromPositionCoords(message.position.timestamp, message.position.coords)
+      );
+      break;
+    case 'position_error':
+      source.dispatchError(message.watchId, toPositionError(message.code, message.message));
+      break;
+    case 'samples':
+      source.dispatchSamples(message.motion, message.orientation);
+      break;
+    case 'battery':
+      processor?.monitor.setBatteryStatus(message.status);
+      break;
+    case 'zones':
+      unsafeZoneCache.setZones(message.zones);
+      break;
+    case 'command':
+      processor?.run(message.command);
+      break;
+  }
+};
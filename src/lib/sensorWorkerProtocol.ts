@@ -0,0 +1,45 @@
+// Sensor worker message protocol
+// The UI thread owns the browser sensors (workers get no GPS or motion events) and forwards
+// raw samples in; the worker runs the risk rules and sends back risk events and snapshots.
+
+import type { MotionSample, OrientationSample, PositionCoords } from './sensorSource';
+import type { RiskEvent } from './rideMonitor';
+import type { FatigueLevel } from './fatigueDetection';
+import type { VehicleProfile } from './vehicleProfiles';
+import type { BatteryStatus } from './powerManager';
+import type { UnsafeZone } from './unsafeZones';
+import type { RoadHit } from './roadQuality';
+import type { KnownPlace } from './knownPlaces';
+import type { RideSegment } from './rideSegments';
+import type { ShiftContext } from './shiftFatigue';
+import type { FatigueBaseline } from './fatigueBaseline';
+import type { RideCommand, RideResult, RideSnapshot } from './rideProcessor';
+
+export interface SerializedPosition {
+  timestamp: number;
+  coords: PositionCoords;
+}
+
+// UI thread -> worker
+export type SensorWorkerRequest =
+  | { type: 'start'; requestId: number; profile: VehicleProfile; position: SerializedPosition; battery: BatteryStatus; places: KnownPlace[]; stopCounts: Record<string, number>; shift: ShiftContext; baseline: FatigueBaseline }
+  | { type: 'stop'; requestId: number }
+  | { type: 'position'; watchId: number; position: SerializedPosition }
+  | { type: 'position_error'; watchId: number; code: number; message: string }
+  | { type: 'samples'; motion: MotionSample[]; orientation: OrientationSample[] }
+  | { type: 'battery'; status: BatteryStatus }
+  | { type: 'zones'; zones: UnsafeZone[] }
+  | { type: 'command'; command: RideCommand };
+
+// Worker -> UI thread
+export type SensorWorkerResponse =
+  | { type: 'started'; requestId: number; ok: boolean }
+  | { type: 'stopped'; requestId: number; result: RideResult | null }
+  | { type: 'watch_position'; watchId: number; options?: PositionOptions }
+  | { type: 'clear_watch'; watchId: number }
+  | { type: 'snapshot'; snapshot: RideSnapshot }
+  | { type: 'risk_event'; event: RiskEvent }
+  | { type: 'alert'; event: RiskEvent } // speak/vibrate for this event
+  | { type: 'nudge'; level: Exclude<FatigueLevel, 'none'>; vibrate: boolean }
+  | { type: 'road_hit'; hit: RoadHit }
+  | { type: 'stop_closed'; segment: RideSegment }; // for the UI thread to remember the stop
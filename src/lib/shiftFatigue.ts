@@ -0,0 +1,288 @@
+// Shift-level fatigue - what earlier rides today left behind
+// A rider doing six 90-minute rides a day is not fresh at the start of each one. Rides
+// less than a sleep apart form one shift: its riding time, breaks, heat exposure and
+// fatigue peaks carry into the next ride's fatigue score. Riding day after day adds up
+// too, until a rest day with no riding resets the streak.
+// Storage functions run on the UI thread; the sensor worker only gets a ShiftContext.
+
+import { rideEvents } from './rideEvents';
+import { speak } from './voiceOutput';
+import type { RideState } from './rideMonitor';
+
+const SHIFTS_KEY = 'kavach_shifts';
+const SETTINGS_KEY = 'kavach_settings';
+
+export const NEW_SHIFT_REST_MS = 6 * 60 * 60 * 1000; // This long off the bike is a night's sleep
+const MAX_STORED_SHIFTS = 30;
+const BREAK_RECOVERY = 0.5; // A minute of rest undoes half a minute of riding...
+const MIN_CARRYOVER = 0.5; // ...but at least half the shift's riding stays with the rider
+const HEAT_LOAD_MS = 60 * 60 * 1000; // An hour above 35°C feels-like
+const REST_DAY_DUE_DAYS = 6;
+const LONG_STRETCH_MS = 2 * 60 * 60 * 1000; // Riding since the last real break
+const BREAK_GAP_MS = 15 * 60 * 1000; // A gap between rides this long is a break
+const CAP_WARNING_FRACTION = 0.85;
+
+export const DEFAULT_DAILY_CAP_HOURS = 10;
+
+export interface ShiftRide {
+  startTime: number;
+  endTime: number;
+  ridingMs: number;
+  breakMs: number; // break and long stops during the ride
+  heatExposureMs: number;
+  peakFatigueScore: number;
+}
+
+export interface Shift {
+  startedAt: number;
+  endedAt: number; // end of the latest ride
+  rides: ShiftRide[];
+}
+
+// Carried into the fatigue detector at the start of a ride
+export interface ShiftContext {
+  rides: number; // earlier rides this shift
+  ridingMs: number;
+  breakMs: number; // stops during rides, gaps between them and the rest before this one
+  sinceBreakMs: number; // riding since the last gap between rides
+  heatExposureMs: number;
+  peakFatigueScore: number;
+  consecutiveDays: number; // riding days in a row, today included
+  dailyCapMs: number;
+}
+
+export type ShiftRecommendationAction = 'keep_going' | 'take_break' | 'end_shift';
+
+export interface ShiftRecommendation {
+  action: ShiftRecommendationAction;
+  message: string;
+  restDayDue: boolean;
+}
+
+export type ShiftLimitEvent = {
+  phase: 'approaching' | 'reached';
+  shiftRidingMs: number;
+  capMs: number;
+  timestamp: number;
+};
+
+export const EMPTY_SHIFT_CONTEXT: ShiftContext = {
+  rides: 0,
+  ridingMs: 0,
+  breakMs: 0,
+  sinceBreakMs: 0,
+  heatExposureMs: 0,
+  peakFatigueScore: 0,
+  consecutiveDays: 1,
+  dailyCapMs: DEFAULT_DAILY_CAP_HOURS * 60 * 60 * 1000,
+};
+
+export function getDailyCapHours(): number {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const hours = saved ? JSON.parse(saved).dailyRideCapHours : null;
+    return typeof hours === 'number' && hours > 0 ? hours : DEFAULT_DAILY_CAP_HOURS;
+  } catch {
+    return DEFAULT_DAILY_CAP_HOURS;
+  }
+}
+
+export function getShifts(): Shift[] {
+  try {
+    const data = localStorage.getItem(SHIFTS_KEY);
+    if (data) return JSON.parse(data);
+  } catch {
+    // Ignore parse errors
+  }
+  return [];
+}
+
+function saveShifts(shifts: Shift[]): void {
+  try {
+    localStorage.setItem(SHIFTS_KEY, JSON.stringify(shifts.slice(-MAX_STORED_SHIFTS)));
+  } catch (e) {
+    console.error('Failed to save shifts:', e);
+  }
+}
+
+function dayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+}
+
+// Days in a row with riding, counting back from today; one day off breaks the streak
+function countConsecutiveDays(shifts: Shift[], now: number): number {
+  const days = new Set(shifts.flatMap(shift => shift.rides.map(ride => dayKey(ride.startTime))));
+  const day = new Date(now);
+  let count = 1;
+  for (;;) {
+    day.setDate(day.getDate() - 1);
+    if (!days.has(dayKey(day.getTime()))) return count;
+    count++;
+  }
+}
+
+// The shift still running at `now`, if the last ride was recent enough
+function getOpenShift(shifts: Shift[], now: number): Shift | null {
+  const latest = shifts[shifts.length - 1];
+  return latest && now - latest.endedAt < NEW_SHIFT_REST_MS ? latest : null;
+}
+
+export function getShiftContext(now = Date.now()): ShiftContext {
+  const shifts = getShifts();
+  const shift = getOpenShift(shifts, now);
+  const context: ShiftContext = {
+    ...EMPTY_SHIFT_CONTEXT,
+    consecutiveDays: countConsecutiveDays(shifts, now),
+    dailyCapMs: getDailyCapHours() * 60 * 60 * 1000,
+  };
+  if (!shift) return context;
+
+  let gapsMs = 0;
+  shift.rides.forEach((ride, i) => {
+    if (i > 0) gapsMs += Math.max(0, ride.startTime - shift.rides[i - 1].endTime);
+  });
+  const restNowMs = Math.max(0, now - shift.endedAt);
+
+  // Riding since the last real break between rides - short hops between deliveries don't count
+  let sinceBreakMs = 0;
+  if (restNowMs < BREAK_GAP_MS) {
+    for (let i = shift.rides.length - 1; i >= 0; i--) {
+      sinceBreakMs += shift.rides[i].ridingMs;
+      if (i > 0 && shift.rides[i].startTime - shift.rides[i - 1].endTime >= BREAK_GAP_MS) break;
+    }
+  }
+
+  return {
+    ...context,
+    rides: shift.rides.length,
+    ridingMs: shift.rides.reduce((sum, ride) => sum + ride.ridingMs, 0),
+    breakMs: shift.rides.reduce((sum, ride) => sum + ride.breakMs, 0) + gapsMs + restNowMs,
+    sinceBreakMs,
+    heatExposureMs: shift.rides.reduce((sum, ride) => sum + ride.heatExposureMs, 0),
+    peakFatigueScore: Math.max(...shift.rides.map(ride => ride.peakFatigueScore)),
+  };
+}
+
+// Riding that still counts towards time-on-bike fatigue after this much rest
+export function getRestedRidingMs(ridingMs: number, restMs: number): number {
+  return Math.max(ridingMs * MIN_CARRYOVER, ridingMs - restMs * BREAK_RECOVERY);
+}
+
+// Earlier riding this shift that still counts towards time-on-bike fatigue
+export function getCarriedRidingMs(context: ShiftContext): number {
+  return getRestedRidingMs(context.ridingMs, context.breakMs);
+}
+
+// Extra fatigue points (0-15) for what the shift and the week have already taken out of the rider
+export function getShiftCarryoverScore(context: ShiftContext): number {
+  let score = 0;
+  if (context.peakFatigueScore >= 70) {
+    score += 10;
+  } else if (context.peakFatigueScore >= 50) {
+    score += 5;
+  }
+  if (context.heatExposureMs >= HEAT_LOAD_MS) score += 5;
+  if (context.consecutiveDays >= REST_DAY_DUE_DAYS) score += 5;
+  return Math.min(15, score);
+}
+
+export function recordShiftRide(
+  ride: RideState,
+  metrics: { heatExposureMinutes: number; peakFatigueScore: number },
+  endTime: number
+): void {
+  if (!ride.startTime) return;
+
+  const shiftRide: ShiftRide = {
+    startTime: ride.startTime,
+    endTime,
+    ridingMs: ride.activeRidingMs,
+    breakMs: ride.segments
+      .filter(s => s.kind === 'stopped' && (s.stopType === 'break' || s.stopType === 'long_stop'))
+      .reduce((sum, s) => sum + ((s.endTime ?? endTime) - s.startTime), 0),
+    heatExposureMs: metrics.heatExposureMinutes * 60 * 1000,
+    peakFatigueScore: metrics.peakFatigueScore,
+  };
+
+  const shifts = getShifts();
+  const shift = getOpenShift(shifts, ride.startTime);
+  if (shift) {
+    shift.rides.push(shiftRide);
+    shift.endedAt = endTime;
+  } else {
+    shifts.push({ startedAt: ride.startTime, endedAt: endTime, rides: [shiftRide] });
+  }
+  saveShifts(shifts);
+}
+
+function formatHours(ms: number): string {
+  return `${Math.round(ms / (60 * 60 * 1000) * 10) / 10} h`;
+}
+
+// What the rider should do next, given the shift so far
+export function getShiftRecommendation(context: ShiftContext): ShiftRecommendation {
+  const restDayDue = context.consecutiveDays >= REST_DAY_DUE_DAYS;
+  const restDay = restDayDue ? ` You've ridden ${context.consecutiveDays} days in a row - take tomorrow off.` : '';
+
+  if (context.ridingMs >= context.dailyCapMs) {
+    return { action: 'end_shift', restDayDue, message: `${formatHours(context.ridingMs)} ridden today - your daily limit. End your shift.${restDay}` };
+  }
+  if (context.peakFatigueScore >= 70) {
+    return { action: 'end_shift', restDayDue, message: `You were severely fatigued this shift. Rest before riding again.${restDay}` };
+  }
+  if (context.ridingMs >= context.dailyCapMs * CAP_WARNING_FRACTION) {
+    return { action: 'take_break', restDayDue, message: `${formatHours(context.dailyCapMs - context.ridingMs)} left before your daily limit.${restDay}` };
+  }
+  if (context.sinceBreakMs >= LONG_STRETCH_MS || context.peakFatigueScore >= 50 || context.heatExposureMs >= HEAT_LOAD_MS) {
+    return { action: 'take_break', restDayDue, message: `Take a 20 minute break with water and shade before the next ride.${restDay}` };
+  }
+  return { action: 'keep_going', restDayDue, message: `${formatHours(context.ridingMs)} ridden this shift.${restDay}` };
+}
+
+// Warns once as the shift nears the daily riding cap, and again when it's reached
+export class ShiftLimitMonitor {
+  private tickInterval: number | null = null;
+  private context: ShiftContext = EMPTY_SHIFT_CONTEXT;
+  private getRideRidingMs: () => number = () => 0;
+  private warned = false;
+  private reached = false;
+
+  // getRideRidingMs: riding time of the current ride
+  start(getRideRidingMs: () => number): void {
+    this.stop();
+    this.context = getShiftContext();
+    this.getRideRidingMs = getRideRidingMs;
+    this.warned = this.context.ridingMs >= this.context.dailyCapMs * CAP_WARNING_FRACTION;
+    this.reached = false;
+    this.tickInterval = window.setInterval(() => this.tick(), 60 * 1000);
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.tickInterval !== null) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private tick(): void {
+    if (this.reached) return;
+
+    const shiftRidingMs = this.context.ridingMs + this.getRideRidingMs();
+    const capMs = this.context.dailyCapMs;
+    const now = Date.now();
+
+    if (shiftRidingMs >= capMs) {
+      this.reached = true;
+      speak('shift_limit_reached');
+      rideEvents.emit('shift_limit', { phase: 'reached', shiftRidingMs, capMs, timestamp: now });
+    } else if (!this.warned && shiftRidingMs >= capMs * CAP_WARNING_FRACTION) {
+      this.warned = true;
+      speak('shift_limit_near');
+      rideEvents.emit('shift_limit', { phase: 'approaching', shiftRidingMs, capMs, timestamp: now });
+    }
+  }
+}
+
+export const shiftLimitMonitor = new ShiftLimitMonitor();
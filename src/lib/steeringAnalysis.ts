@@ -0,0 +1,195 @@
+// Steering analysis - drowsy weaving and micro-sleep from roll and lateral acceleration
+// Variance alone can't tell a road turn from drowsy weaving. Over a 20 s window, a turn
+// is a one-way sweep (removed with the trend) and balance corrections are quick (0.6-2 Hz),
+// while a drowsy rider drifts and over-corrects in a slow, repeated oscillation (0.15-0.5 Hz).
+// Band amplitudes come from the Goertzel algorithm at a handful of frequencies.
+// Micro-sleep: very still riding (no corrections at all), then a sudden large correction
+// that snaps straight back - a turn or a lane change holds its new lean instead.
+
+export interface SteeringSample {
+  timestamp: number;
+  value: number;
+}
+
+export interface SpectralFeatures {
+  weaveAmplitude: number; // strongest oscillation in the weaving band, channel units
+  weaveFrequencyHz: number;
+  balanceAmplitude: number; // strongest quick correction
+  crossings: number; // times the detrended signal crossed zero
+}
+
+export interface SteeringState {
+  weavingScore: number; // 0-100, smoothed over windows
+  weavingFrequencyHz: number | null; // while weaving
+  microSleepEvents: number; // this ride
+  lastMicroSleepAt: number | null;
+}
+
+// Bins no wider apart than the Hann main lobe at a 20 s window, so no peak falls between them
+const WEAVE_BAND_HZ = [0.15, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5];
+const BALANCE_BAND_HZ = Array.from({ length: 15 }, (_, i) => Math.round((0.6 + i * 0.1) * 10) / 10); // 0.6-2 Hz
+
+export const STEERING_WINDOW_MS = 20000; // Several weaving cycles, shorter than a curve sequence
+export const STEERING_EVERY_MS = 2000;
+const MIN_WINDOW_MS = 12000;
+const MIN_SAMPLE_RATE_HZ = 5; // Nyquist for the balance band, with margin
+
+// Weaving: a dominant, repeated, large-enough slow oscillation
+const MIN_CROSSINGS = 6; // ~3 cycles; a single turn or an S-bend gives 1-3
+const MIN_WEAVE_DOMINANCE = 1.5; // weave amplitude over balance amplitude
+const ROLL_WEAVE_DEG = [2, 8]; // amplitude scored 0 -> 100 between these
+const LATERAL_WEAVE_MS2 = [0.3, 1.5];
+const WEAVE_SMOOTHING = 0.3;
+const MIN_SPEED_KMH = 20; // Slow riding in traffic weaves on purpose
+
+// Micro-sleep: steady for a while, then a sudden large change of lean
+const STEADY_SECONDS = 8;
+const STEADY_ROLL_STD_DEG = 1.5;
+const CORRECTION_ROLL_SHIFT_DEG = 6;
+const CORRECTION_ROLL_STD_DEG = 3;
+const RECOVERY_SECONDS = 2; // Back to the old lean within this long
+const RECOVERY_ROLL_DEG = 3;
+const MICRO_SLEEP_COOLDOWN_MS = 30000;
+
+// Amplitude of the component at freqHz (Hann-windowed values)
+function goertzelAmplitude(values: number[], sampleRateHz: number, freqHz: number): number {
+  const coeff = 2 * Math.cos(2 * Math.PI * freqHz / sampleRateHz);
+  let s1 = 0;
+  let s2 = 0;
+  for (const value of values) {
+    const s = value + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s;
+  }
+  const power = Math.max(0, s1 * s1 + s2 * s2 - coeff * s1 * s2);
+  // 2/N for a one-sided amplitude, x2 for the Hann window's coherent gain
+  return 4 * Math.sqrt(power) / values.length;
+}
+
+// Remove the linear trend - a turn's lean in and out, or a slowly drifting sensor
+function detrend(samples: SteeringSample[]): number[] {
+  const n = samples.length;
+  const t0 = samples[0].timestamp;
+  const ts = samples.map(s => (s.timestamp - t0) / 1000);
+  const meanT = ts.reduce((a, b) => a + b, 0) / n;
+  const meanV = samples.reduce((a, s) => a + s.value, 0) / n;
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < n; i++) {
+    num += (ts[i] - meanT) * (samples[i].value - meanV);
+    den += (ts[i] - meanT) ** 2;
+  }
+  const slope = den > 0 ? num / den : 0;
+  return samples.map((s, i) => s.value - meanV - slope * (ts[i] - meanT));
+}
+
+export function computeSpectralFeatures(samples: SteeringSample[]): SpectralFeatures | null {
+  if (samples.length < 2) return null;
+  const durationS = (samples[samples.length - 1].timestamp - samples[0].timestamp) / 1000;
+  if (durationS * 1000 < MIN_WINDOW_MS) return null;
+  const sampleRateHz = (samples.length - 1) / durationS;
+  if (sampleRateHz < MIN_SAMPLE_RATE_HZ) return null;
+
+  const detrended = detrend(samples);
+  let crossings = 0;
+  for (let i = 1; i < detrended.length; i++) {
+    if ((detrended[i - 1] < 0) !== (detrended[i] < 0)) crossings++;
+  }
+
+  const n = detrended.length;
+  const windowed = detrended.map((v, i) => v * 0.5 * (1 - Math.cos(2 * Math.PI * i / (n - 1))));
+
+  let weaveAmplitude = 0;
+  let weaveFrequencyHz = 0;
+  for (const freq of WEAVE_BAND_HZ) {
+    const amplitude = goertzelAmplitude(windowed, sampleRateHz, freq);
+    if (amplitude > weaveAmplitude) {
+      weaveAmplitude = amplitude;
+      weaveFrequencyHz = freq;
+    }
+  }
+  const balanceAmplitude = BALANCE_BAND_HZ.reduce(
+    (max, freq) => Math.max(max, goertzelAmplitude(windowed, sampleRateHz, freq)), 0
+  );
+
+  return { weaveAmplitude, weaveFrequencyHz, balanceAmplitude, crossings };
+}
+
+// 0-100 for one window: how strongly this looks like drowsy weaving
+export function scoreWeaving(features: SpectralFeatures | null, range: number[]): number {
+  if (!features) return 0;
+  if (features.crossings < MIN_CROSSINGS) return 0;
+  if (features.weaveAmplitude < features.balanceAmplitude * MIN_WEAVE_DOMINANCE) return 0;
+  const [low, high] = range;
+  return Math.round(Math.min(1, Math.max(0, (features.weaveAmplitude - low) / (high - low))) * 100);
+}
+
+export class SteeringAnalyzer {
+  private state: SteeringState = { weavingScore: 0, weavingFrequencyHz: null, microSleepEvents: 0, lastMicroSleepAt: null };
+  private rollHistory: { mean: number; std: number }[] = []; // one per second, newest last
+  private correction: { timestamp: number; steadyMean: number; seconds: number } | null = null;
+
+  constructor(private onMicroSleep: (timestamp: number) => void) {}
+
+  reset(): void {
+    this.state = { weavingScore: 0, weavingFrequencyHz: null, microSleepEvents: 0, lastMicroSleepAt: null };
+    this.rollHistory = [];
+    this.correction = null;
+  }
+
+  getState(): SteeringState {
+    return { ...this.state, weavingScore: Math.round(this.state.weavingScore) };
+  }
+
+  // Every STEERING_EVERY_MS with the last STEERING_WINDOW_MS of roll and lateral acceleration
+  analyzeWindow(roll: SteeringSample[], lateral: SteeringSample[], speedKmh: number): void {
+    let score = 0;
+    let frequency: number | null = null;
+    if (speedKmh >= MIN_SPEED_KMH) {
+      const rollFeatures = computeSpectralFeatures(roll);
+      const lateralFeatures = computeSpectralFeatures(lateral);
+      const rollScore = scoreWeaving(rollFeatures, ROLL_WEAVE_DEG);
+      const lateralScore = scoreWeaving(lateralFeatures, LATERAL_WEAVE_MS2);
+      score = Math.max(rollScore, lateralScore);
+      if (score > 0) {
+        frequency = rollScore >= lateralScore ? rollFeatures!.weaveFrequencyHz : lateralFeatures!.weaveFrequencyHz;
+      }
+    }
+
+    this.state.weavingScore += (score - this.state.weavingScore) * WEAVE_SMOOTHING;
+    this.state.weavingFrequencyHz = this.state.weavingScore >= 1 ? frequency ?? this.state.weavingFrequencyHz : null;
+  }
+
+  // Every second with the last second of roll
+  addRollSecond(mean: number, std: number, timestamp: number, speedKmh: number): void {
+    const history = this.rollHistory;
+    const steadyBefore = history.length >= STEADY_SECONDS &&
+      history.slice(-STEADY_SECONDS).every(s => s.std < STEADY_ROLL_STD_DEG);
+    const steadyMean = history.slice(-3).reduce((sum, s) => sum + s.mean, 0) / Math.max(1, Math.min(3, history.length));
+
+    history.push({ mean, std });
+    if (history.length > STEADY_SECONDS + 1) history.shift();
+
+    if (this.correction) {
+      const correction = this.correction;
+      correction.seconds++;
+      if (Math.abs(mean - correction.steadyMean) <= RECOVERY_ROLL_DEG) {
+        this.correction = null;
+        this.state.microSleepEvents++;
+        this.state.lastMicroSleepAt = correction.timestamp;
+        this.onMicroSleep(correction.timestamp);
+      } else if (correction.seconds >= RECOVERY_SECONDS) {
+        this.correction = null; // Held the new lean: a turn
+      }
+      return;
+    }
+
+    if (!steadyBefore || speedKmh < MIN_SPEED_KMH) return;
+    if (this.state.lastMicroSleepAt !== null && timestamp - this.state.lastMicroSleepAt < MICRO_SLEEP_COOLDOWN_MS) return;
+
+    // Jerked awake: lean changes fast and a long way
+    if (std >= CORRECTION_ROLL_STD_DEG && Math.abs(mean - steadyMean) >= CORRECTION_ROLL_SHIFT_DEG) {
+      this.correction = { timestamp, steadyMean, seconds: 0 };
+    }
+  }
+}
@@ -0,0 +1,164 @@
+// Unsafe zone proximity - alerts when the rider approaches a known unsafe zone
+// Zones are preloaded around the rider and cached offline in localStorage
+
+import { haversineDistance } from './positionFilter';
+
+const ZONE_CACHE_KEY = 'kavach_unsafe_zones_cache';
+
+// Preload coverage
+const PRELOAD_RADIUS_M = 10000; // Keep zones within 10 km of the preload point
+const PRELOAD_REFRESH_DISTANCE_M = 5000; // Reload after moving this far from it
+const ZONE_FETCH_LIMIT = 1000;
+
+// Proximity / hysteresis
+const APPROACH_DISTANCE_M = 150; // Warn this far outside the zone radius
+const EXIT_HYSTERESIS_M = 100; // Must get this much further out before re-arming
+
+export type UnsafeZoneRiskType = 'accident_prone' | 'poor_road' | 'flooding' | 'crime' | 'heat_zone';
+
+export interface UnsafeZone {
+  id: string;
+  location: { lat: number; lng: number };
+  radius_meters: number;
+  risk_type: UnsafeZoneRiskType;
+  severity: 'low' | 'medium' | 'high';
+}
+
+export interface ZoneAlert {
+  zone: UnsafeZone;
+  distanceMeters: number; // from the zone edge, 0 when inside
+  inside: boolean;
+}
+
+interface ZoneCache {
+  center: { lat: number; lng: number };
+  fetchedAt: number;
+  zones: UnsafeZone[];
+}
+
+class UnsafeZoneCache {
+  private cache: ZoneCache | null = null;
+  private fetchPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.loadFromCache();
+  }
+
+  private loadFromCache(): void {
+    try {
+      const cached = localStorage.getItem(ZONE_CACHE_KEY);
+      if (cached) {
+        this.cache = JSON.parse(cached);
+      }
+    } catch {
+      // Corrupt cache - start empty
+    }
+  }
+
+  private saveToCache(cache: ZoneCache): void {
+    try {
+      localStorage.setItem(ZONE_CACHE_KEY, JSON.stringify(cache));
+    } catch {
+      // Storage full - zones stay in memory for this session
+    }
+  }
+
+  getZones(): UnsafeZone[] {
+    return this.cache?.zones || [];
+  }
+
+  // Zones loaded elsewhere - the sensor worker gets them from the UI thread
+  setZones(zones: UnsafeZone[]): void {
+    this.cache = { center: this.cache?.center ?? { lat: 0, lng: 0 }, fetchedAt: Date.now(), zones };
+  }
+
+  // Fetch zones around this point unless the cache already covers it
+  async preload(location: { lat: number; lng: number }): Promise<void> {
+    if (this.cache && haversineDistance(
+      this.cache.center.lat, this.cache.center.lng, location.lat, location.lng
+    ) < PRELOAD_REFRESH_DISTANCE_M) {
+      return;
+    }
+
+    if (this.fetchPromise) return this.fetchPromise;
+
+    this.fetchPromise = this.fetchZones(location).finally(() => {
+      this.fetchPromise = null;
+    });
+    return this.fetchPromise;
+  }
+
+  private async fetchZones(center: { lat: number; lng: number }): Promise<void> {
+    try {
+      // Loaded on demand so the sensor worker bundle never pulls in the Supabase client
+      const { supabase } = await import('@/integrations/supabase/client');
+      const { data, error } = await supabase
+        .from('unsafe_zones')
+        .select('id, location, radius_meters, risk_type, severity')
+        .eq('active', true)
+        .limit(ZONE_FETCH_LIMIT);
+
+      if (error || !data) return; // Offline - keep whatever is cached
+
+      const zones = data
+        .map(z => ({
+          id: z.id,
+          location: z.location as { lat: number; lng: number },
+          radius_meters: z.radius_meters,
+          risk_type: z.risk_type as UnsafeZoneRiskType,
+          severity: z.severity as UnsafeZone['severity'],
+        }))
+        .filter(z => z.location && haversineDistance(
+          center.lat, center.lng, z.location.lat, z.location.lng
+        ) - z.radius_meters <= PRELOAD_RADIUS_M);
+
+      this.cache = { center, fetchedAt: Date.now(), zones };
+      this.saveToCache(this.cache);
+    } catch (error) {
+      console.warn('Failed to load unsafe zones:', error);
+    }
+  }
+}
+
+export const unsafeZoneCache = new UnsafeZoneCache();
+
+// Tracks which zones the rider has already been warned about.
+// A zone alerts once on approach, then stays quiet until the rider is
+// clearly away from it, so GPS wobble at the edge doesn't repeat the warning.
+export class ZoneProximityTracker {
+  private alerted = new Set<string>();
+
+  reset(): void {
+    this.alerted.clear();
+  }
+
+  update(location: { lat: number; lng: number }, zones: UnsafeZone[]): ZoneAlert[] {
+    const alerts: ZoneAlert[] = [];
+
+    for (const zone of zones) {
+      const centerDistance = haversineDistance(
+        location.lat, location.lng, zone.location.lat, zone.location.lng
+      );
+      const edgeDistance = centerDistance - zone.radius_meters;
+
+      if (this.alerted.has(zone.id)) {
+        if (edgeDistance > APPROACH_DISTANCE_M + EXIT_HYSTERESIS_M) {
+          this.alerted.delete(zone.id);
+        }
+        continue;
+      }
+
+      if (edgeDistance <= APPROACH_DISTANCE_M) {
+        this.alerted.add(zone.id);
+        alerts.push({
+          zone,
+          distanceMeters: Math.max(0, Math.round(edgeDistance)),
+          inside: edgeDistance <= 0,
+        });
+      }
+    }
+
+    // Closest zone first
+    return alerts.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  }
+}
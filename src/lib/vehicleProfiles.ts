@@ -0,0 +1,81 @@
+// Vehicle profiles - per-vehicle risk thresholds
+// A bicycle at 25 km/h and a 150cc motorcycle at 25 km/h are very different risks
+
+const SETTINGS_KEY = 'kavach_settings';
+
+export type VehicleType = 'bicycle' | 'ebike' | 'scooter' | 'motorcycle';
+
+export interface VehicleProfile {
+  id: VehicleType;
+  name: string;
+  icon: string;
+  speedThresholdKmh: number; // Warn above this speed
+  suddenStopThresholdKmh: number; // Speed drop counted as hard braking
+  fallImpactG: number; // Impact G-force that starts a crash assessment
+  idleWarningMs: number; // No movement for this long = check on rider
+  fatigueOnsetMinutes: number; // Time on ride before fatigue starts building fast
+  vibrationBaseline: number; // Normal accelerometer variance from the vehicle itself
+}
+
+export const VEHICLE_PROFILES: Record<VehicleType, VehicleProfile> = {
+  bicycle: {
+    id: 'bicycle',
+    name: 'Bicycle',
+    icon: '🚲',
+    speedThresholdKmh: 30,
+    suddenStopThresholdKmh: 12,
+    fallImpactG: 2.5,
+    idleWarningMs: 4 * 60 * 1000,
+    fatigueOnsetMinutes: 45, // Pedalling is physical work
+    vibrationBaseline: 1.5, // Pedalling rhythm
+  },
+  ebike: {
+    id: 'ebike',
+    name: 'E-bike',
+    icon: '⚡',
+    speedThresholdKmh: 35,
+    suddenStopThresholdKmh: 15,
+    fallImpactG: 2.7,
+    idleWarningMs: 5 * 60 * 1000,
+    fatigueOnsetMinutes: 60,
+    vibrationBaseline: 1,
+  },
+  scooter: {
+    id: 'scooter',
+    name: 'Scooter',
+    icon: '🛵',
+    speedThresholdKmh: 60,
+    suddenStopThresholdKmh: 20,
+    fallImpactG: 3,
+    idleWarningMs: 5 * 60 * 1000,
+    fatigueOnsetMinutes: 90,
+    vibrationBaseline: 0,
+  },
+  motorcycle: {
+    id: 'motorcycle',
+    name: 'Motorcycle (150cc)',
+    icon: '🏍️',
+    speedThresholdKmh: 70,
+    suddenStopThresholdKmh: 25,
+    fallImpactG: 3.5,
+    idleWarningMs: 5 * 60 * 1000,
+    fatigueOnsetMinutes: 90,
+    vibrationBaseline: 2, // Engine vibration through the mount
+  },
+};
+
+export const DEFAULT_VEHICLE_TYPE: VehicleType = 'scooter';
+
+export function getVehicleProfile(type?: string | null): VehicleProfile {
+  return VEHICLE_PROFILES[type as VehicleType] || VEHICLE_PROFILES[DEFAULT_VEHICLE_TYPE];
+}
+
+// Profile chosen in Settings
+export function getSelectedVehicleProfile(): VehicleProfile {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return getVehicleProfile(saved ? JSON.parse(saved).vehicleProfile : null);
+  } catch {
+    return getVehicleProfile();
+  }
+}
@@ -47,6 +47,7 @@ export interface VoiceConfirmationOptions {
   onTranscript?: (text: string) => void;
   timeoutMs?: number;
   language?: string;
+  prompt?: string; // voice message key, defaults to 'are_you_okay'
 }
 
 // Keyword dictionaries for each intent
@@ -260,7 +261,7 @@ class VoiceConfirmationListener {
     }, timeoutMs);
 
     // Speak prompt
-    speak('are_you_okay');
+    speak(options.prompt || 'are_you_okay');
 
     // Start listening after a short delay for the prompt to play
     setTimeout(() => {
@@ -300,6 +301,11 @@ class VoiceConfirmationListener {
   getIsListening(): boolean {
     return this.isListening;
   }
+
+  // A prompt is waiting for its answer (whether or not the mic is open right now)
+  isBusy(): boolean {
+    return this.options !== null;
+  }
 }
 
 // Singleton instance
@@ -308,11 +314,13 @@ export const voiceConfirmation = new VoiceConfirmationListener();
 // Convenience function for one-shot confirmation
 export function requestVoiceConfirmation(
   onResult: (result: ConfirmationResult, responseTimeMs: number) => void,
-  timeoutMs = 5000
+  timeoutMs = 5000,
+  prompt?: string
 ): () => void {
   voiceConfirmation.start({
     onResult,
     timeoutMs,
+    prompt,
   });
 
   // Return cancel function
@@ -8,13 +8,31 @@ const voiceMessages: Record<string, Record<string, string>> = {
   'en-IN': {
     ride_started: 'Ride started. I am watching over you.',
     ride_ended: 'Ride ended. Stay safe.',
+    auto_start_offer: 'Looks like you are riding. Start ride protection? Say yes.',
+    auto_stop_offer: 'You have stopped for a long time. End your ride? Say yes.',
     speed_warning: 'Slow down. Risky road ahead.',
     heat_warning: 'Too hot. Stop for 5 minutes. Find shade.',
     unsafe_zone: 'Unsafe area ahead. Stay alert.',
+    unsafe_zone_accident_prone: 'Accident-prone area ahead. Slow down.',
+    unsafe_zone_poor_road: 'Bad road ahead. Potholes. Go slow.',
+    unsafe_zone_flooding: 'Flooding ahead. Avoid water on the road.',
+    unsafe_zone_crime: 'Unsafe area ahead. Do not stop here.',
+    unsafe_zone_heat_zone: 'Hot zone ahead. Drink water. Find shade soon.',
     sudden_stop: 'Are you okay? Tap the screen if you are fine.',
     fall_detected: 'Fall detected. Getting help now.',
+    crash_detected: 'Crash detected. Getting help now. Tap the screen if you are fine.',
+    harsh_braking: 'Hard braking. Keep more distance.',
+    harsh_acceleration: 'Easy on the throttle.',
+    sharp_cornering: 'Sharp turn. Slow down before corners.',
     long_idle: 'No movement detected. Are you okay?',
     wellness_check: 'How are you feeling? Take a break if tired.',
+    wellness_check_repeat: 'Please answer. Are you okay? Say okay or help.',
+    wellness_check_escalated: 'No answer. Starting an emergency alert.',
+    dead_mans_switch: 'Night check. Say okay, tap the screen or shake your phone.',
+    shift_limit_near: 'Almost at your riding limit for today. Plan to finish soon.',
+    shift_limit_reached: 'Daily riding limit reached. Please end your shift and rest.',
+    heat_rest_due: 'Heat stress. Time for a break in the shade. Drink water.',
+    heat_rest_done: 'Break done. Drink some water before you ride.',
     emergency_triggered: 'Emergency activated. Sharing your location.',
     emergency_cancelled: 'Emergency cancelled. Stay safe.',
     help_coming: 'Help is on the way. Stay where you are.',
@@ -37,13 +55,31 @@ const voiceMessages: Record<string, Record<string, string>> = {
   'hi-IN': {
     ride_started: 'राइड शुरू। मैं आपकी निगरानी कर रहा हूं।',
     ride_ended: 'राइड समाप्त। सुरक्षित रहें।',
+    auto_start_offer: 'लगता है आप राइड कर रहे हैं। सुरक्षा शुरू करें? हां बोलें।',
+    auto_stop_offer: 'आप काफी देर से रुके हैं। राइड खत्म करें? हां बोलें।',
     speed_warning: 'धीमा करें। आगे खतरनाक सड़क।',
     heat_warning: 'बहुत गर्मी। 5 मिनट रुकें। छाया खोजें।',
     unsafe_zone: 'आगे असुरक्षित क्षेत्र। सतर्क रहें।',
+    unsafe_zone_accident_prone: 'आगे दुर्घटना वाला इलाका। धीमे चलें।',
+    unsafe_zone_poor_road: 'आगे खराब सड़क। गड्ढे हैं। धीरे चलें।',
+    unsafe_zone_flooding: 'आगे पानी भरा है। पानी से बचें।',
+    unsafe_zone_crime: 'आगे असुरक्षित इलाका। यहां न रुकें।',
+    unsafe_zone_heat_zone: 'आगे बहुत गर्मी। पानी पिएं। छाया खोजें।',
     sudden_stop: 'क्या आप ठीक हैं? ठीक हैं तो स्क्रीन टैप करें।',
     fall_detected: 'गिरावट का पता चला। मदद बुला रहा हूं।',
+    crash_detected: 'दुर्घटना का पता चला। मदद बुला रहा हूं। ठीक हैं तो स्क्रीन टैप करें।',
+    harsh_braking: 'तेज़ ब्रेक। ज़्यादा दूरी रखें।',
+    harsh_acceleration: 'धीरे से एक्सीलरेट करें।',
+    sharp_cornering: 'तेज़ मोड़। मोड़ से पहले धीमे हों।',
     long_idle: 'कोई हलचल नहीं। क्या आप ठीक हैं?',
     wellness_check: 'आप कैसा महसूस कर रहे हैं? थके हों तो आराम करें।',
+    wellness_check_repeat: 'कृपया जवाब दें। क्या आप ठीक हैं? ठीक है या मदद बोलें।',
+    wellness_check_escalated: 'कोई जवाब नहीं। इमरजेंसी अलर्ट शुरू कर रहा हूं।',
+    dead_mans_switch: 'रात की जांच। ठीक है बोलें, स्क्रीन टैप करें या फोन हिलाएं।',
+    shift_limit_near: 'आज की राइडिंग सीमा लगभग पूरी। जल्दी खत्म करने की योजना बनाएं।',
+    shift_limit_reached: 'आज की राइडिंग सीमा पूरी। कृपया शिफ्ट खत्म करें और आराम करें।',
+    heat_rest_due: 'गर्मी का असर। छाया में ब्रेक लें। पानी पिएं।',
+    heat_rest_done: 'ब्रेक पूरा। चलने से पहले पानी पिएं।',
     emergency_triggered: 'इमरजेंसी चालू। आपकी लोकेशन शेयर कर रहा हूं।',
     emergency_cancelled: 'इमरजेंसी रद्द। सुरक्षित रहें।',
     help_coming: 'मदद आ रही है। वहीं रहें।',
@@ -66,13 +102,31 @@ const voiceMessages: Record<string, Record<string, string>> = {
   'ta-IN': {
     ride_started: 'பயணம் தொடங்கியது. நான் உங்களை கவனித்துக்கொள்கிறேன்.',
     ride_ended: 'பயணம் முடிந்தது. பாதுகாப்பாக இருங்கள்.',
+    auto_start_offer: 'நீங்கள் ஓட்டுவது போல் தெரிகிறது. பாதுகாப்பை தொடங்கவா? ஆமா என்று சொல்லுங்கள்.',
+    auto_stop_offer: 'நீண்ட நேரம் நிறுத்தியுள்ளீர்கள். பயணத்தை முடிக்கவா? ஆமா என்று சொல்லுங்கள்.',
     speed_warning: 'வேகத்தை குறையுங்கள். ஆபத்தான சாலை.',
     heat_warning: 'மிகவும் வெப்பம். 5 நிமிடம் நிறுத்துங்கள்.',
     unsafe_zone: 'முன்னால் பாதுகாப்பற்ற பகுதி. எச்சரிக்கையாக இருங்கள்.',
+    unsafe_zone_accident_prone: 'முன்னால் விபத்து பகுதி. மெதுவாக செல்லுங்கள்.',
+    unsafe_zone_poor_road: 'முன்னால் மோசமான சாலை. மெதுவாக செல்லுங்கள்.',
+    unsafe_zone_flooding: 'முன்னால் வெள்ளம். தண்ணீரை தவிர்க்கவும்.',
+    unsafe_zone_crime: 'முன்னால் பாதுகாப்பற்ற பகுதி. இங்கே நிறுத்த வேண்டாம்.',
+    unsafe_zone_heat_zone: 'முன்னால் வெப்பமான பகுதி. தண்ணீர் குடியுங்கள்.',
     sudden_stop: 'நீங்கள் நன்றாக இருக்கிறீர்களா?',
     fall_detected: 'விழுந்தது கண்டறியப்பட்டது. உதவி வருகிறது.',
+    crash_detected: 'விபத்து கண்டறியப்பட்டது. உதவி வருகிறது.',
+    harsh_braking: 'கடுமையான பிரேக். அதிக இடைவெளி வையுங்கள்.',
+    harsh_acceleration: 'மெதுவாக வேகம் எடுங்கள்.',
+    sharp_cornering: 'கூர்மையான திருப்பம். முன்பே மெதுவாக செல்லுங்கள்.',
     long_idle: 'இயக்கம் இல்லை. நீங்கள் நன்றாக இருக்கிறீர்களா?',
     wellness_check: 'எப்படி உணர்கிறீர்கள்?',
+    wellness_check_repeat: 'பதில் சொல்லுங்கள். நீங்கள் நன்றாக இருக்கிறீர்களா?',
+    wellness_check_escalated: 'பதில் இல்லை. அவசர எச்சரிக்கையைத் தொடங்குகிறேன்.',
+    dead_mans_switch: 'இரவு சோதனை. சரி என்று சொல்லுங்கள், திரையைத் தட்டுங்கள் அல்லது போனை அசையுங்கள்.',
+    shift_limit_near: 'இன்றைய ஓட்டும் வரம்பு நெருங்குகிறது. விரைவில் முடிக்க திட்டமிடுங்கள்.',
+    shift_limit_reached: 'இன்றைய ஓட்டும் வரம்பு முடிந்தது. ஷிஃப்டை முடித்து ஓய்வெடுங்கள்.',
+    heat_rest_due: 'வெப்ப அழுத்தம். நிழலில் ஓய்வெடுங்கள். தண்ணீர் குடியுங்கள்.',
+    heat_rest_done: 'ஓய்வு முடிந்தது. ஓட்டும் முன் தண்ணீர் குடியுங்கள்.',
     emergency_triggered: 'அவசர நிலை செயல்படுத்தப்பட்டது.',
     emergency_cancelled: 'அவசர நிலை ரத்து.',
     help_coming: 'உதவி வருகிறது.',
@@ -94,6 +148,13 @@ const voiceMessages: Record<string, Record<string, string>> = {
   },
 };
 
+// Messages contributed by risk detector plugins, keyed by language then message key
+export function registerVoiceMessages(messages: Record<string, Record<string, string>>): void {
+  Object.entries(messages).forEach(([lang, entries]) => {
+    voiceMessages[lang] = { ...voiceMessages[lang], ...entries };
+  });
+}
+
 let speechSynthesis: SpeechSynthesis | null = null;
 let currentVoice: SpeechSynthesisVoice | null = null;
 
@@ -2,6 +2,9 @@
 // Uses Open-Meteo API (free, no API key required)
 // Offline-first with localStorage caching
 
+import { rideEvents } from './rideEvents';
+import { estimateWBGT } from './heatStress';
+
 const WEATHER_CACHE_KEY = 'kavach_weather_cache';
 const WEATHER_FETCH_INTERVAL = 15 * 60 * 1000; // 15 minutes
 
@@ -42,17 +45,12 @@ class WeatherService {
   private cachedData: WeatherData | null = null;
   private lastFetchLocation: { lat: number; lng: number } | null = null;
   private fetchPromise: Promise<WeatherData | null> | null = null;
-  private onWeatherUpdate: ((data: WeatherData) => void) | null = null;
   private checkInterval: number | null = null;
   
   constructor() {
     this.loadFromCache();
   }
   
-  setWeatherUpdateHandler(handler: (data: WeatherData) => void): void {
-    this.onWeatherUpdate = handler;
-  }
-  
   private loadFromCache(): void {
     try {
       const cached = localStorage.getItem(WEATHER_CACHE_KEY);
@@ -192,7 +190,7 @@ class WeatherService {
       this.cachedData = result;
       this.lastFetchLocation = { lat, lng };
       this.saveToCache(result);
-      this.onWeatherUpdate?.(result);
+      rideEvents.emit('weather_updated', result);
       
       return result;
     } catch (error) {
@@ -203,12 +201,14 @@ class WeatherService {
   }
   
   // Get weather risk assessment
+  // Heat levels are WBGT, which counts sun and wind: 27.8°C starts work/rest cycles, 32.2°C is the hardest
   getWeatherRisk(data: WeatherData | null): WeatherRisk {
     if (!data) {
       return { level: 'none', type: 'none', message: '' };
     }
     
-    const { feelsLike, windSpeed, isRaining, uvIndex, aqi } = data;
+    const { windSpeed, isRaining, uvIndex, aqi } = data;
+    const wbgt = estimateWBGT(data);
     
     // Hazardous AQI (highest priority - immediate health risk)
     if (aqi !== null && aqi > 300) {
@@ -220,7 +220,7 @@ class WeatherService {
     }
     
     // Extreme heat
-    if (feelsLike >= 45) {
+    if (wbgt >= 35) {
       return {
         level: 'extreme',
         type: 'heat',
@@ -238,7 +238,7 @@ class WeatherService {
     }
     
     // Danger heat
-    if (feelsLike >= 40) {
+    if (wbgt >= 32.2) {
       return {
         level: 'danger',
         type: 'heat',
@@ -256,7 +256,7 @@ class WeatherService {
     }
     
     // Warning heat
-    if (feelsLike >= 38) {
+    if (wbgt >= 29.4) {
       return {
         level: 'warning',
         type: 'heat',
@@ -301,7 +301,7 @@ class WeatherService {
     }
     
     // Caution heat
-    if (feelsLike >= 35) {
+    if (wbgt >= 27.8) {
       return {
         level: 'caution',
         type: 'heat',
@@ -0,0 +1,259 @@
+// Wellness check-ins during long shifts
+// Asks "how are you feeling?" out loud at intervals that shorten with time on the ride,
+// fatigue, heat and late hours. An unanswered check-in is asked again, louder; a second
+// miss raises an emergency. Every check-in goes on the ride event bus.
+
+import { rideEvents } from './rideEvents';
+import { rideEngine } from './rideEngine';
+import { voiceConfirmation } from './voiceConfirmation';
+import { speak, vibrateAlert } from './voiceOutput';
+import type { FatigueLevel } from './fatigueDetection';
+
+export type WellnessCheckResult = 'ok' | 'danger' | 'missed';
+
+export interface WellnessCheck {
+  result: WellnessCheckResult;
+  attempts: number; // prompts asked, 1 or 2
+  responseTimeMs: number | null; // null when missed
+  intervalMs: number; // gap the scheduler chose before this check-in
+  fatigueLevel: FatigueLevel;
+  feelsLike: number | null;
+  emergencyRaised: boolean; // missed or refused check-ins raise an emergency
+  timestamp: number;
+}
+
+export interface CheckInContext {
+  rideMs: number; // active riding time
+  fatigueLevel: FatigueLevel;
+  feelsLike: number | null; // heat index, °C
+  hour: number; // local time, 0-23
+}
+
+const BASE_INTERVAL_MS = 45 * 60 * 1000;
+const MIN_INTERVAL_MS = 10 * 60 * 1000;
+const LONG_RIDE_MS = 2 * 60 * 60 * 1000;
+const VERY_LONG_RIDE_MS = 4 * 60 * 60 * 1000;
+
+const FATIGUE_FACTOR: Record<FatigueLevel, number> = { none: 1, mild: 0.75, moderate: 0.5, severe: 0.33 };
+const NIGHT_START_HOUR = 22;
+const NIGHT_END_HOUR = 5;
+
+const RESPONSE_TIMEOUT_MS = 10000;
+const SECOND_PROMPT_DELAY_MS = 60 * 1000; // Give the rider a minute to pull over before asking again
+const BUSY_RETRY_MS = 60 * 1000; // Another prompt or an emergency is on screen - try again later
+const TICK_MS = 15 * 1000;
+
+// Gap until the next check-in: shorter the longer, hotter, later and more tired the ride
+export function getCheckInIntervalMs(context: CheckInContext): number {
+  let interval = BASE_INTERVAL_MS;
+
+  if (context.rideMs >= VERY_LONG_RIDE_MS) {
+    interval *= 0.5;
+  } else if (context.rideMs >= LONG_RIDE_MS) {
+    interval *= 0.67;
+  }
+
+  interval *= FATIGUE_FACTOR[context.fatigueLevel];
+
+  if (context.feelsLike !== null) {
+    if (context.feelsLike >= 40) {
+      interval *= 0.5;
+    } else if (context.feelsLike >= 35) {
+      interval *= 0.75;
+    }
+  }
+
+  if (context.hour >= NIGHT_START_HOUR || context.hour < NIGHT_END_HOUR) {
+    interval *= 0.67;
+  }
+
+  return Math.max(MIN_INTERVAL_MS, Math.round(interval));
+}
+
+export class WellnessCheckScheduler {
+  private tickInterval: number | null = null;
+  private unsubscribers: (() => void)[] = [];
+  private nextCheckAt = 0;
+  private intervalMs = BASE_INTERVAL_MS;
+  private fatigueLevel: FatigueLevel = 'none';
+  private feelsLike: number | null = null;
+  private emergencyActive = false;
+
+  // The check-in being asked, if any
+  private attempt = 0;
+  private promptedAt = 0;
+  private secondPromptTimer: number | null = null;
+
+  start(): void {
+    this.stop();
+    this.fatigueLevel = 'none';
+    this.emergencyActive = false;
+    this.scheduleNext(Date.now());
+
+    this.unsubscribers = [
+      rideEvents.on('fatigue_changed', ({ level }) => {
+        this.fatigueLevel = level;
+        this.reschedule();
+      }),
+      rideEvents.on('weather_updated', weather => {
+        this.feelsLike = weather.feelsLike;
+        this.reschedule();
+      }),
+      rideEvents.on('emergency_triggered', () => {
+        this.emergencyActive = true;
+        this.cancelPrompt();
+      }),
+      rideEvents.on('emergency_resolved', () => {
+        this.emergencyActive = false;
+        this.scheduleNext(Date.now());
+      }),
+    ];
+    this.tickInterval = window.setInterval(() => this.tick(), TICK_MS);
+  }
+
+  stop(): void {
+    if (this.tickInterval !== null) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.cancelPrompt();
+  }
+
+  getNextCheckAt(): number | null {
+    return this.tickInterval !== null ? this.nextCheckAt : null;
+  }
+
+  private getContext(now: number): CheckInContext {
+    return {
+      rideMs: rideEngine.getSnapshot().activeRidingMs,
+      fatigueLevel: this.fatigueLevel,
+      feelsLike: this.feelsLike,
+      hour: new Date(now).getHours(),
+    };
+  }
+
+  private scheduleNext(now: number): void {
+    this.intervalMs = getCheckInIntervalMs(this.getContext(now));
+    this.nextCheckAt = now + this.intervalMs;
+  }
+
+  // Conditions changed: bring the next check-in forward if the new interval is shorter
+  private reschedule(): void {
+    if (this.attempt > 0) return;
+    const lastCheckAt = this.nextCheckAt - this.intervalMs;
+    const intervalMs = getCheckInIntervalMs(this.getContext(Date.now()));
+    if (lastCheckAt + intervalMs < this.nextCheckAt) {
+      this.intervalMs = intervalMs;
+      this.nextCheckAt = lastCheckAt + intervalMs;
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+
+    // Another confirmation took over the listener and our answer never came
+    if (this.attempt > 0 && this.secondPromptTimer === null && now - this.promptedAt > RESPONSE_TIMEOUT_MS * 3) {
+      this.attempt = 0;
+      this.nextCheckAt = now + BUSY_RETRY_MS;
+      return;
+    }
+
+    if (this.attempt > 0 || now < this.nextCheckAt) return;
+
+    if (this.emergencyActive || voiceConfirmation.isBusy()) {
+      this.nextCheckAt = now + BUSY_RETRY_MS;
+      return;
+    }
+
+    this.ask(1);
+  }
+
+  private ask(attempt: number): void {
+    this.attempt = attempt;
+    this.promptedAt = Date.now();
+    if (attempt > 1) vibrateAlert();
+
+    voiceConfirmation.start({
+      prompt: attempt === 1 ? 'wellness_check' : 'wellness_check_repeat',
+      timeoutMs: RESPONSE_TIMEOUT_MS,
+      onResult: (result, responseTimeMs) => this.handleAnswer(result, responseTimeMs),
+    });
+  }
+
+  private handleAnswer(answer: 'ok' | 'danger' | 'timeout' | 'cancelled', responseTimeMs: number): void {
+    if (this.attempt === 0) return;
+
+    if (answer === 'timeout') {
+      if (this.attempt === 1) {
+        this.secondPromptTimer = window.setTimeout(() => {
+          this.secondPromptTimer = null;
+          this.ask(2);
+        }, SECOND_PROMPT_DELAY_MS);
+        return;
+      }
+      this.escalate();
+      return;
+    }
+
+    // Dismissing the prompt by hand counts as an answer
+    const result: WellnessCheckResult = answer === 'danger' ? 'danger' : 'ok';
+    this.finish(result, responseTimeMs, result === 'danger');
+    if (result === 'danger') {
+      rideEvents.emit('emergency_requested', { triggerType: 'manual' });
+    }
+  }
+
+  // Two prompts went unanswered: the emergency flow shares the location and alerts contacts
+  private escalate(): void {
+    speak('wellness_check_escalated');
+    this.finish('missed', null, true);
+    rideEvents.emit('emergency_requested', { triggerType: 'missed_check_in' });
+  }
+
+  private finish(result: WellnessCheckResult, responseTimeMs: number | null, emergencyRaised: boolean): void {
+    const now = Date.now();
+    const check: WellnessCheck = {
+      result,
+      attempts: this.attempt,
+      responseTimeMs,
+      intervalMs: this.intervalMs,
+      fatigueLevel: this.fatigueLevel,
+      feelsLike: this.feelsLike,
+      emergencyRaised,
+      timestamp: now,
+    };
+
+    this.attempt = 0;
+    this.scheduleNext(now);
+    rideEvents.emit('wellness_check', check);
+
+    // A refused or missed check-in also goes in the ride's risk record
+    if (result !== 'ok') {
+      rideEvents.emit('risk_alerted', {
+        event: {
+          type: 'wellness_check',
+          severity: result === 'danger' ? 'critical' : 'high',
+          timestamp: now,
+          location: rideEngine.getCurrentLocation() ?? undefined,
+          message: result === 'danger' ? 'Rider asked for help at a check-in' : `No answer to ${check.attempts} check-in prompts`,
+        },
+        confidence: null,
+      });
+    }
+  }
+
+  private cancelPrompt(): void {
+    if (this.secondPromptTimer !== null) {
+      clearTimeout(this.secondPromptTimer);
+      this.secondPromptTimer = null;
+    }
+    if (this.attempt > 0) {
+      this.attempt = 0;
+      voiceConfirmation.stop();
+    }
+  }
+}
+
+export const wellnessCheckScheduler = new WellnessCheckScheduler();
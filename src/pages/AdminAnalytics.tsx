@@ -13,13 +13,15 @@ import {
   Activity,
   Brain,
   Target,
-  Mic
+  Mic,
+  PlayCircle
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SmartAlertMetrics } from '@/components/admin/SmartAlertMetrics';
 import { LocationMemoryMap } from '@/components/admin/LocationMemoryMap';
+import { TraceReplay } from '@/components/admin/TraceReplay';
 
 interface AnalyticsData {
   totalRides: number;
@@ -199,7 +201,7 @@ export default function AdminAnalytics() {
       <main className="p-4 space-y-4 pb-8">
         {/* Tab Navigation */}
         <Tabs defaultValue="smart-alerts" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-4">
+          <TabsList className="grid w-full grid-cols-4 mb-4">
             <TabsTrigger value="smart-alerts" className="text-xs">
               <Target className="w-3 h-3 mr-1" />
               Smart Alerts
@@ -212,6 +214,10 @@ export default function AdminAnalytics() {
               <Brain className="w-3 h-3 mr-1" />
               Patterns
             </TabsTrigger>
+            <TabsTrigger value="replay" className="text-xs">
+              <PlayCircle className="w-3 h-3 mr-1" />
+              Replay
+            </TabsTrigger>
           </TabsList>
 
           {/* Smart Alerts Tab */}
@@ -224,6 +230,11 @@ export default function AdminAnalytics() {
             <LocationMemoryMap />
           </TabsContent>
 
+          {/* Replay Tab - Sensor trace regression checks */}
+          <TabsContent value="replay" className="space-y-4">
+            <TraceReplay />
+          </TabsContent>
+
           {/* Patterns Tab - Original Content */}
           <TabsContent value="patterns" className="space-y-6">
             {loading ? (
@@ -13,20 +13,40 @@ import { VoiceChat } from '@/components/VoiceChat';
 import { SafetyMap } from '@/components/SafetyMap';
 import { ContextualSafetyActions } from '@/components/ContextualSafetyActions';
 import { VoiceConfirmationOverlay } from '@/components/VoiceConfirmationOverlay';
-import { rideMonitor, type RiskEvent } from '@/lib/rideMonitor';
-import { fatigueDetector } from '@/lib/fatigueDetection';
+import { HeatRestCountdown } from '@/components/HeatRestCountdown';
+import type { RiskEvent } from '@/lib/rideMonitor';
+import { rideEngine } from '@/lib/rideEngine';
+import { rideEvents } from '@/lib/rideEvents';
+import { startRideEventLog } from '@/lib/rideEventLog';
+import { rideMetrics } from '@/lib/rideMetrics';
 import { weatherService, type WeatherData } from '@/lib/weatherService';
 import { calculateRideScore } from '@/lib/safetyCredits';
 import { initVoice, speak, vibrateConfirm } from '@/lib/voiceOutput';
 import { calculateConfidence, getConfidenceAction, type ScoredRiskEvent } from '@/lib/confidenceScoring';
 import { recordFalseAlarm, recordTrueAlert, loadMemoriesFromCloud } from '@/lib/locationMemory';
+import { 
+  isTraceRecordingEnabled, 
+  startTraceRecording, 
+  stopTraceRecording, 
+  downloadSensorTrace 
+} from '@/lib/sensorTrace';
+import { getSelectedVehicleProfile } from '@/lib/vehicleProfiles';
+import type { BatteryStatus, SamplingTier } from '@/lib/powerManager';
+import type { GpsHealth, LocationEstimate } from '@/lib/gpsHealth';
+import { autoRideDetector, getAutoRideMode, type AutoRideMode } from '@/lib/autoRide';
+import { requestVoiceConfirmation } from '@/lib/voiceConfirmation';
+import { wellnessCheckScheduler } from '@/lib/wellnessCheck';
+import { deadMansSwitch } from '@/lib/deadMansSwitch';
+import { getShiftContext, getShiftRecommendation, shiftLimitMonitor } from '@/lib/shiftFatigue';
+import { heatStressMonitor, type HeatStressStatus } from '@/lib/heatStress';
 import { toast } from 'sonner';
 import { 
   startRideSession, 
   endRideSession, 
-  saveRiskEvent, 
   saveEmergencyEvent,
-  resolveEmergency 
+  toEmergencyLocation,
+  type EmergencyLocation,
+  type EmergencyTriggerType
 } from '@/lib/offlineStorage';
 
 const Index = () => {
@@ -38,6 +58,7 @@ const Index = () => {
   const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isEmergencyActive, setIsEmergencyActive] = useState(false);
   const [emergencyEventId, setEmergencyEventId] = useState<string | null>(null);
+  const [emergencyLocation, setEmergencyLocation] = useState<EmergencyLocation | null>(null);
   const [showDemoControls, setShowDemoControls] = useState(false);
   const [showContacts, setShowContacts] = useState(false);
   const [showVoiceChat, setShowVoiceChat] = useState(false);
@@ -46,24 +67,27 @@ const Index = () => {
   // Voice confirmation state
   const [pendingConfirmation, setPendingConfirmation] = useState<ScoredRiskEvent | null>(null);
   
+  // Crash/fall emergency countdown, cancelled when the rider says they're OK
+  const emergencyCountdownRef = useRef<number | null>(null);
+  // Latest emergency handler, so timers don't act on a stale isEmergencyActive
+  const handleEmergencyRef = useRef<(triggerType?: EmergencyTriggerType) => void>(() => {});
+  
   // Risk and fatigue tracking
   const [riskLevel, setRiskLevel] = useState<'none' | 'low' | 'medium' | 'high' | 'critical'>('none');
   const [fatigueLevel, setFatigueLevel] = useState<'none' | 'mild' | 'moderate' | 'severe'>('none');
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
-  
-  // Metrics tracking for safety score
-  const metricsRef = useRef({
-    speedViolations: 0,
-    heatExposureMinutes: 0,
-    warningsAcknowledged: 0,
-    totalWarnings: 0,
-    harshWeatherMinutes: 0,
-    weatherAlertsHeeded: 0,
-  });
+  const [samplingTier, setSamplingTier] = useState<SamplingTier>('full');
+  const [battery, setBattery] = useState<BatteryStatus | null>(null);
+  const [gpsHealth, setGpsHealth] = useState<GpsHealth>('good');
+  const [locationEstimate, setLocationEstimate] = useState<LocationEstimate | null>(null);
+  const [heatStatus, setHeatStatus] = useState<HeatStressStatus | null>(null);
   
   // Last weather alert time to avoid spam
   const lastWeatherAlertRef = useRef<number>(0);
-  const hydrationReminderRef = useRef<number>(0);
+  
+  // Latest start/stop handlers, for auto start/stop callbacks set up in effects
+  const startRideRef = useRef<() => void>(() => {});
+  const stopRideRef = useRef<() => void>(() => {});
   
   // Initialize voice system and load location memories
   useEffect(() => {
@@ -71,6 +95,16 @@ const Index = () => {
     loadMemoriesFromCloud();
   }, []);
   
+  // Storage and safety-score subscribers on the ride event bus
+  useEffect(() => {
+    const stopLog = startRideEventLog();
+    const stopMetrics = rideMetrics.attach();
+    return () => {
+      stopLog();
+      stopMetrics();
+    };
+  }, []);
+  
   // Duration timer
   useEffect(() => {
     if (!isRideActive) {
@@ -85,38 +119,208 @@ const Index = () => {
     return () => clearInterval(timer);
   }, [isRideActive]);
   
+  // Auto start: watch for riding while no ride is active (opt-in in Settings)
+  useEffect(() => {
+    const mode = getAutoRideMode();
+    if (isRideActive || mode === 'off') return;
+    
+    autoRideDetector.setRideDetectedHandler(() => {
+      if (mode === 'auto') {
+        toast.info('Riding detected - starting ride protection');
+        startRideRef.current();
+        return;
+      }
+      
+      // Voice and toast both offer the start - whichever answers first wins
+      let answered = false;
+      const start = () => {
+        if (answered) return;
+        answered = true;
+        startRideRef.current();
+      };
+      toast('Riding detected', {
+        description: 'Start ride protection?',
+        action: { label: 'Start', onClick: start },
+      });
+      requestVoiceConfirmation((result) => {
+        if (result === 'ok') {
+          start();
+        } else if (!answered) {
+          autoRideDetector.snooze();
+        }
+      }, 8000, 'auto_start_offer');
+    });
+    autoRideDetector.startWatching();
+    
+    return () => autoRideDetector.stopWatching();
+  }, [isRideActive]);
+  
+  // Spoken wellness check-ins while riding; a missed one raises an emergency on its own
+  useEffect(() => {
+    if (!isRideActive) return;
+    
+    wellnessCheckScheduler.start();
+    const unsubscribe = rideEvents.on('wellness_check', check => {
+      if (check.result === 'missed') {
+        toast.warning('Check-in missed', {
+          description: 'No answer to two check-ins - emergency alert started',
+        });
+      }
+    });
+    
+    return () => {
+      unsubscribe();
+      wellnessCheckScheduler.stop();
+    };
+  }, [isRideActive]);
+  
+  // Night riding dead-man's switch (configured in Settings); a missed prompt raises an emergency
+  useEffect(() => {
+    if (!isRideActive) return;
+    
+    const PROMPT_TOAST_ID = 'dead-mans-switch';
+    const unsubscribe = rideEvents.on('dead_mans_switch', event => {
+      switch (event.phase) {
+        case 'armed':
+          toast.info('Night check-ins on', {
+            description: `Answer every ${event.settings.intervalMinutes} min by voice, tap or shake`,
+          });
+          break;
+        case 'prompt':
+          toast.warning('Are you okay?', {
+            id: PROMPT_TOAST_ID,
+            description: 'Say okay, tap, or shake your phone',
+            duration: event.deadline - event.timestamp,
+            action: { label: "I'm OK", onClick: () => deadMansSwitch.acknowledge('tap') },
+          });
+          break;
+        default:
+          toast.dismiss(PROMPT_TOAST_ID);
+      }
+    });
+    deadMansSwitch.start();
+    
+    return () => {
+      unsubscribe();
+      deadMansSwitch.stop();
+      toast.dismiss(PROMPT_TOAST_ID);
+    };
+  }, [isRideActive]);
+  
+  // Riding time across today's rides, against the daily cap set in Settings
+  useEffect(() => {
+    if (!isRideActive) return;
+    
+    // Starting again after the shift should have ended
+    const recommendation = getShiftRecommendation(getShiftContext());
+    if (recommendation.action === 'end_shift') {
+      toast.warning('Time to rest', { description: recommendation.message });
+    }
+    
+    const unsubscribe = rideEvents.on('shift_limit', event => {
+      const hours = Math.round(event.capMs / 3600000);
+      if (event.phase === 'reached') {
+        toast.warning('Daily riding limit reached', { description: `${hours} h ridden today. End your shift and rest.` });
+      } else {
+        toast.info('Nearing your daily limit', { description: `Plan to finish before ${hours} h of riding` });
+      }
+    });
+    shiftLimitMonitor.start(() => rideEngine.getSnapshot().activeRidingMs);
+    
+    return () => {
+      unsubscribe();
+      shiftLimitMonitor.stop();
+    };
+  }, [isRideActive]);
+  
+  // WBGT heat stress: work/rest and water cycles across the shift, with a countdown during breaks
+  useEffect(() => {
+    if (!isRideActive) return;
+    
+    const REST_TOAST_ID = 'heat-rest';
+    const unsubscribe = rideEvents.on('heat_stress', event => {
+      setHeatStatus(event.status);
+      const { wbgt, guideline } = event.status;
+      switch (event.phase) {
+        case 'rest_due':
+          toast.warning('Heat break due', {
+            id: REST_TOAST_ID,
+            description: `WBGT ${wbgt}°C. Rest ${guideline.restMinutes} min in shade and drink water.`,
+          });
+          break;
+        case 'rest_started':
+          toast.dismiss(REST_TOAST_ID);
+          break;
+        case 'rest_interrupted':
+          toast.info('Heat break cut short', { description: `Stop for ${guideline.restMinutes} min in shade soon` });
+          break;
+        case 'rest_done':
+          toast.success('Heat break done', { description: 'Drink some water before you ride on' });
+          break;
+        case 'hydrate':
+          toast.info('Drink water', { description: `About ${event.waterMl} ml now` });
+          break;
+      }
+    });
+    heatStressMonitor.start(() => rideEngine.getSnapshot(), () => weatherService.getCachedWeather(), rideEngine.getSensorSource());
+    
+    return () => {
+      unsubscribe();
+      heatStressMonitor.stop();
+      setHeatStatus(null);
+      toast.dismiss(REST_TOAST_ID);
+    };
+  }, [isRideActive]);
+  
   // Update location, fatigue, and weather periodically
   useEffect(() => {
     if (!isRideActive) return;
     
+    const offerAutoStop = (mode: AutoRideMode) => {
+      if (mode === 'auto') {
+        toast.info('Stationary for a while - ending ride');
+        stopRideRef.current();
+        return;
+      }
+      requestVoiceConfirmation((result) => {
+        if (result === 'ok') stopRideRef.current();
+      }, 8000, 'auto_stop_offer');
+    };
+    
     const updateStatus = () => {
-      // Update location
-      const loc = rideMonitor.getCurrentLocation();
-      if (loc) setLocation(loc);
+      // Latest ride state from the sensor worker
+      const snapshot = rideEngine.getSnapshot();
+      if (snapshot.location) setLocation(snapshot.location);
       
-      // Update fatigue level
-      const newFatigueLevel = fatigueDetector.getFatigueLevel();
-      setFatigueLevel(newFatigueLevel);
+      // Battery-aware sampling tier, picked by the ride monitor
+      setSamplingTier(snapshot.samplingTier);
+      setBattery(snapshot.battery);
       
-      // Get current speed for fatigue detector
-      const state = rideMonitor.getState();
-      fatigueDetector.updateGPSData(state.lastSpeed);
+      // Signal health, and the dead-reckoned estimate while GPS is lost
+      setGpsHealth(snapshot.gpsHealth);
+      setLocationEstimate(snapshot.locationEstimate);
+      
+      // Auto stop: parked long enough that the shift is probably over
+      const autoMode = getAutoRideMode();
+      if (autoMode !== 'off' && autoRideDetector.shouldOfferStop(snapshot.currentStop)) {
+        offerAutoStop(autoMode);
+      }
       
       // Check weather and update fatigue with temperature
       const weather = weatherService.getCachedWeather();
       if (weather) {
         setWeatherData(weather);
-        fatigueDetector.updateWeatherData({
-          temperature: weather.temperature,
-          feelsLike: weather.feelsLike,
-          humidity: weather.humidity,
+        rideEngine.run({
+          kind: 'weather',
+          data: {
+            temperature: weather.temperature,
+            feelsLike: weather.feelsLike,
+            humidity: weather.humidity,
+            windSpeed: weather.windSpeed,
+            isRaining: weather.isRaining,
+          },
         });
         
-        // Track harsh weather exposure
-        if (weather.feelsLike >= 35 || weather.isRaining || weather.windSpeed >= 30) {
-          metricsRef.current.harshWeatherMinutes += 5 / 60; // 5 seconds increment
-        }
-        
         // Weather-based alerts (with debounce)
         const now = Date.now();
         const weatherRisk = weatherService.getWeatherRisk(weather);
@@ -135,55 +339,64 @@ const Index = () => {
             } else if (aqi > 100) {
               speak('aqi_sensitive');
             }
-            metricsRef.current.weatherAlertsHeeded++;
             lastWeatherAlertRef.current = now;
           } else if (weatherRisk.level === 'extreme') {
             speak('extreme_heat');
-            rideMonitor.triggerExtremeWeather({
-              temperature: weather.temperature,
-              feelsLike: weather.feelsLike,
-              humidity: weather.humidity,
-              windSpeed: weather.windSpeed,
-              isRaining: weather.isRaining,
+            rideEngine.run({
+              kind: 'extreme_weather',
+              weatherData: {
+                temperature: weather.temperature,
+                feelsLike: weather.feelsLike,
+                humidity: weather.humidity,
+                windSpeed: weather.windSpeed,
+                isRaining: weather.isRaining,
+              },
             });
             lastWeatherAlertRef.current = now;
           } else if (weatherRisk.type === 'rain') {
             speak('rain_warning');
-            rideMonitor.triggerRainWarning({
-              temperature: weather.temperature,
-              feelsLike: weather.feelsLike,
-              humidity: weather.humidity,
-              windSpeed: weather.windSpeed,
-              isRaining: weather.isRaining,
+            rideEngine.run({
+              kind: 'rain_warning',
+              weatherData: {
+                temperature: weather.temperature,
+                feelsLike: weather.feelsLike,
+                humidity: weather.humidity,
+                windSpeed: weather.windSpeed,
+                isRaining: weather.isRaining,
+              },
             });
             lastWeatherAlertRef.current = now;
           } else if (weatherRisk.type === 'wind') {
             speak('high_wind');
-            rideMonitor.triggerWindWarning({
-              temperature: weather.temperature,
-              feelsLike: weather.feelsLike,
-              humidity: weather.humidity,
-              windSpeed: weather.windSpeed,
-              isRaining: weather.isRaining,
+            rideEngine.run({
+              kind: 'wind_warning',
+              weatherData: {
+                temperature: weather.temperature,
+                feelsLike: weather.feelsLike,
+                humidity: weather.humidity,
+                windSpeed: weather.windSpeed,
+                isRaining: weather.isRaining,
+              },
             });
             lastWeatherAlertRef.current = now;
           } else if (weatherRisk.level === 'danger' || weatherRisk.level === 'warning') {
             speak('heat_warning');
-            rideMonitor.triggerHeatWarning({
-              temperature: weather.temperature,
-              feelsLike: weather.feelsLike,
-              humidity: weather.humidity,
-              windSpeed: weather.windSpeed,
-              isRaining: weather.isRaining,
+            rideEngine.run({
+              kind: 'heat_warning',
+              weatherData: {
+                temperature: weather.temperature,
+                feelsLike: weather.feelsLike,
+                humidity: weather.humidity,
+                windSpeed: weather.windSpeed,
+                isRaining: weather.isRaining,
+              },
             });
             lastWeatherAlertRef.current = now;
           }
-        }
-        
-        // Hydration reminder every 30 min in heat
-        if (weather.feelsLike >= 32 && now - hydrationReminderRef.current > 30 * 60 * 1000) {
-          speak('hydration_reminder');
-          hydrationReminderRef.current = now;
+          
+          if (lastWeatherAlertRef.current === now) {
+            rideEvents.emit('weather_alert', { risk: weatherRisk, weather });
+          }
         }
       }
     };
@@ -196,7 +409,19 @@ const Index = () => {
   
   // Handle risk events with confidence scoring
   const handleRiskEvent = useCallback((event: RiskEvent) => {
-    const state = rideMonitor.getState();
+    // Harsh driving events are telemetry for the ride score, not alerts to confirm
+    if (event.type === 'harsh_braking' || event.type === 'harsh_acceleration' || event.type === 'sharp_cornering') {
+      rideEvents.emit('risk_alerted', { event, confidence: null });
+      if (event.severity !== 'low') {
+        setLastEvent(event);
+        setTimeout(() => {
+          setLastEvent(prev => prev?.timestamp === event.timestamp ? null : prev);
+        }, 5000);
+      }
+      return;
+    }
+    
+    const state = rideEngine.getSnapshot();
     
     // Calculate confidence score
     const scoredEvent = calculateConfidence(event, {
@@ -223,20 +448,13 @@ const Index = () => {
       return;
     }
     
+    // A likely crash or fall still asks the rider first; no answer escalates
+    const isCrash = event.type === 'crash_detected' || event.type === 'fall_detected';
+    if (isCrash) setPendingConfirmation(scoredEvent);
+    
     // For 'alert' or 'emergency' actions, proceed with normal flow
     setLastEvent(event);
-    if (sessionId) {
-      saveRiskEvent(sessionId, event);
-    }
-    
-    // Update metrics
-    metricsRef.current.totalWarnings++;
-    if (event.type === 'speed_warning') {
-      metricsRef.current.speedViolations++;
-    }
-    if (event.type === 'heat_warning') {
-      metricsRef.current.heatExposureMinutes += 5;
-    }
+    rideEvents.emit('risk_alerted', { event, confidence: scoredEvent.confidence });
     
     // Set risk level based on severity
     setRiskLevel(event.severity === 'critical' ? 'critical' : 
@@ -253,18 +471,34 @@ const Index = () => {
       setLastEvent(prev => prev?.timestamp === event.timestamp ? null : prev);
     }, 5000);
     
-    // Auto-trigger emergency for high-confidence critical events
-    if (action === 'emergency' && event.type === 'fall_detected') {
-      setTimeout(() => handleEmergency(), 3000);
+    // High-confidence crash or fall: emergency in 10 seconds even if the confirmation is lost
+    // (replaced by a later event), unless the rider answers first
+    if (action === 'emergency' && isCrash) {
+      const triggerType = event.type === 'crash_detected' ? 'auto_crash' : 'auto_fall';
+      if (emergencyCountdownRef.current !== null) clearTimeout(emergencyCountdownRef.current);
+      emergencyCountdownRef.current = window.setTimeout(() => {
+        emergencyCountdownRef.current = null;
+        handleEmergencyRef.current(triggerType);
+      }, 10000);
     }
   }, [sessionId]);
   
+  const cancelEmergencyCountdown = useCallback(() => {
+    if (emergencyCountdownRef.current !== null) {
+      clearTimeout(emergencyCountdownRef.current);
+      emergencyCountdownRef.current = null;
+    }
+  }, []);
+  
   // Handle voice confirmation result
   const handleConfirmationResult = useCallback((result: 'ok' | 'danger' | 'timeout' | 'cancelled', responseTimeMs: number) => {
     const event = pendingConfirmation;
     setPendingConfirmation(null);
     
     if (!event) return;
+    // Answered either way: "I'm OK" cancels the countdown, danger or silence escalates now
+    cancelEmergencyCountdown();
+    rideEvents.emit('confirmation_resolved', { event, result, responseTimeMs });
     
     if (result === 'ok' || result === 'cancelled') {
       // Record false alarm at this location
@@ -274,103 +508,112 @@ const Index = () => {
         });
       }
       speak('alert_suppressed');
-      metricsRef.current.warningsAcknowledged++;
       toast.info('Learning from this location');
     } else if (result === 'danger') {
       // Record true alert and escalate
       if (event.location) {
         recordTrueAlert(event.location.lat, event.location.lng);
       }
-      handleEmergency();
+      handleEmergencyRef.current();
     } else if (result === 'timeout') {
       // No response = assume danger
       if (event.location) {
         recordTrueAlert(event.location.lat, event.location.lng);
       }
-      handleEmergency();
+      handleEmergencyRef.current(
+        event.type === 'crash_detected' ? 'auto_crash' :
+        event.type === 'fall_detected' ? 'auto_fall' :
+        event.type === 'long_idle' ? 'auto_idle' : 'manual'
+      );
     }
-  }, [pendingConfirmation]);
+  }, [pendingConfirmation, cancelEmergencyCountdown]);
   
   // Handle emergency trigger
-  const handleEmergency = useCallback(async () => {
+  const handleEmergency = useCallback(async (triggerType: EmergencyTriggerType = 'manual') => {
     if (isEmergencyActive) return;
     
     setIsEmergencyActive(true);
     setRiskLevel('critical');
-    const loc = rideMonitor.getCurrentLocation();
     
+    // Share how old and how rough the location is, not just the last pin
+    const estimate = rideEngine.getLocationEstimate();
+    const loc = estimate ? toEmergencyLocation(estimate) : null;
+    setEmergencyLocation(loc);
+    
+    let eventId: string | null = null;
     if (sessionId) {
-      const eventId = await saveEmergencyEvent(
+      eventId = await saveEmergencyEvent(
         sessionId,
-        'manual',
+        triggerType,
         loc || undefined
       );
       setEmergencyEventId(eventId);
     }
+    rideEvents.emit('emergency_triggered', { triggerType, eventId, location: loc });
   }, [sessionId, isEmergencyActive]);
+  handleEmergencyRef.current = handleEmergency;
   
   // Cancel emergency
   const handleCancelEmergency = useCallback(() => {
     setIsEmergencyActive(false);
     setRiskLevel('none');
-    if (emergencyEventId) {
-      resolveEmergency(emergencyEventId, 'false_alarm');
-      setEmergencyEventId(null);
-    }
-    // Count as acknowledged warning
-    metricsRef.current.warningsAcknowledged++;
+    rideEvents.emit('emergency_resolved', { eventId: emergencyEventId, resolution: 'false_alarm' });
+    setEmergencyEventId(null);
   }, [emergencyEventId]);
   
   // Resolve emergency
   const handleResolveEmergency = useCallback(() => {
     setIsEmergencyActive(false);
     setRiskLevel('none');
-    if (emergencyEventId) {
-      resolveEmergency(emergencyEventId, 'resolved');
-      setEmergencyEventId(null);
-    }
+    rideEvents.emit('emergency_resolved', { eventId: emergencyEventId, resolution: 'resolved' });
+    setEmergencyEventId(null);
   }, [emergencyEventId]);
   
+  // Detections from the ride engine, and fresh weather
+  useEffect(() => {
+    const unsubscribers = [
+      rideEvents.on('risk_detected', handleRiskEvent),
+      rideEvents.on('emergency_requested', ({ triggerType }) => handleEmergency(triggerType)),
+      rideEvents.on('fatigue_changed', ({ level }) => setFatigueLevel(level)),
+      rideEvents.on('weather_updated', setWeatherData),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [handleRiskEvent, handleEmergency]);
+  
   // Start ride
   const handleStartRide = async () => {
     setIsLoading(true);
     vibrateConfirm();
     
-    // Reset metrics
-    metricsRef.current = {
-      speedViolations: 0,
-      heatExposureMinutes: 0,
-      warningsAcknowledged: 0,
-      totalWarnings: 0,
-      harshWeatherMinutes: 0,
-      weatherAlertsHeeded: 0,
-    };
     lastWeatherAlertRef.current = 0;
-    hydrationReminderRef.current = 0;
     
     try {
-      const success = await rideMonitor.startMonitoring();
+      // Route sensors through the trace recorder when enabled in Settings
+      if (isTraceRecordingEnabled()) {
+        startTraceRecording();
+      }
       
-      if (success) {
-        rideMonitor.setRiskEventHandler(handleRiskEvent);
-        rideMonitor.setEmergencyHandler(handleEmergency);
-        
-        // Start fatigue detection
-        fatigueDetector.startMonitoring();
-        
+      // Per-vehicle thresholds chosen in Settings
+      const vehicleProfile = getSelectedVehicleProfile();
+      
+      // Risk rules and fatigue detection run in the sensor worker
+      const success = await rideEngine.start(vehicleProfile);
+      
+      if (!success) {
+        stopTraceRecording();
+      } else {
         // Start weather monitoring
-        weatherService.startMonitoring(() => rideMonitor.getCurrentLocation());
-        weatherService.setWeatherUpdateHandler((data) => {
-          setWeatherData(data);
-          fatigueDetector.updateWeatherData({
-            temperature: data.temperature,
-            feelsLike: data.feelsLike,
-            humidity: data.humidity,
-          });
-        });
+        weatherService.startMonitoring(() => rideEngine.getCurrentLocation());
         
-        const loc = rideMonitor.getCurrentLocation();
-        const newSessionId = await startRideSession(loc || undefined);
+        const loc = rideEngine.getCurrentLocation();
+        const newSessionId = await startRideSession(loc || undefined, vehicleProfile.id);
+        rideEvents.emit('ride_started', {
+          sessionId: newSessionId,
+          vehicleType: vehicleProfile.id,
+          location: loc,
+          weather: weatherService.getCachedWeather(),
+          timestamp: Date.now(),
+        });
         
         setSessionId(newSessionId);
         setIsRideActive(true);
@@ -391,33 +634,59 @@ const Index = () => {
   const handleStopRide = async () => {
     vibrateConfirm();
     
-    const finalState = rideMonitor.stopMonitoring();
-    const fatigueState = fatigueDetector.stopMonitoring();
-    const fatigueMetrics = fatigueDetector.getMetrics();
+    // A crash or fall flagged just before stopping no longer needs an answer
+    cancelEmergencyCountdown();
+    setPendingConfirmation(null);
+    
+    const { ride: finalState, fatigueMetrics, fatigueBaseline, fatigueTimeline, partial } = await rideEngine.stop();
+    rideEvents.emit('ride_ended', { sessionId, ride: finalState, fatigueMetrics, fatigueBaseline, fatigueTimeline, timestamp: Date.now() });
     
     // Stop weather monitoring
     weatherService.stopMonitoring();
     
+    // Save the raw sensor trace for offline replay
+    const trace = stopTraceRecording();
+    if (trace) {
+      downloadSensorTrace(trace);
+    }
+    
     if (sessionId) {
-      await endRideSession(sessionId, finalState);
-      
+      await endRideSession(sessionId, finalState, fatigueTimeline, partial);
+    }
+    
+    if (sessionId && partial) {
+      // Without fatigue scores the ride would score as perfectly smooth
+      toast.warning('Ride saved', { description: 'Sensor data was lost, so this ride has no safety score' });
+    } else if (sessionId) {
       // Calculate and save safety score with weather data
       const totalMinutes = duration / 60;
+      const metrics = rideMetrics.getMetrics();
       const rideScore = calculateRideScore(sessionId, {
         accelerationVariance: fatigueMetrics.accelerationVariance,
-        speedViolations: metricsRef.current.speedViolations,
-        heatExposureMinutes: metricsRef.current.heatExposureMinutes,
+        speedViolations: metrics.speedViolations,
+        heatExposureMinutes: heatStressMonitor.getStatus().rideExposureMs / 60000,
         totalMinutes,
-        warningsAcknowledged: metricsRef.current.warningsAcknowledged,
-        totalWarnings: metricsRef.current.totalWarnings,
-        harshWeatherMinutes: metricsRef.current.harshWeatherMinutes,
-        weatherAlertsHeeded: metricsRef.current.weatherAlertsHeeded,
+        warningsAcknowledged: metrics.warningsAcknowledged,
+        totalWarnings: metrics.totalWarnings,
+        harshWeatherMinutes: metrics.harshWeatherMinutes,
+        weatherAlertsHeeded: metrics.weatherAlertsHeeded,
+        harshBrakingEvents: metrics.harshBrakingEvents,
+        harshAccelerationEvents: metrics.harshAccelerationEvents,
+        sharpCorneringEvents: metrics.sharpCorneringEvents,
       });
       
       // Show score toast
       toast.success(`Ride Complete! Score: ${rideScore.overallScore} (+${rideScore.creditsEarned} credits)`);
     }
     
+    // End-of-ride advice for the rest of the shift (this ride is already recorded)
+    const recommendation = getShiftRecommendation(getShiftContext());
+    if (recommendation.action === 'end_shift') {
+      toast.warning('End your shift', { description: recommendation.message });
+    } else if (recommendation.action === 'take_break' || recommendation.restDayDue) {
+      toast.info('Take a break', { description: recommendation.message });
+    }
+    
     setIsRideActive(false);
     setSessionId(null);
     setLastEvent(null);
@@ -425,34 +694,44 @@ const Index = () => {
     setRiskLevel('none');
     setFatigueLevel('none');
     setWeatherData(null);
+    setSamplingTier('full');
+    setBattery(null);
+    setGpsHealth('good');
+    setLocationEstimate(null);
+    
+    // Don't offer to start again straight away if the rider stopped while moving
+    autoRideDetector.snooze();
     
     speak('ride_ended');
   };
   
+  startRideRef.current = handleStartRide;
+  stopRideRef.current = handleStopRide;
+  
   // Demo triggers
   const handleTriggerHeat = () => {
-    rideMonitor.triggerHeatWarning();
+    rideEngine.run({ kind: 'heat_warning' });
   };
   
   const handleTriggerUnsafeZone = () => {
-    rideMonitor.triggerUnsafeZoneWarning();
+    rideEngine.run({ kind: 'unsafe_zone_demo' });
   };
   
   // Fatigue simulation for testing
   const handleSimulateFatigue = (level: 'mild' | 'moderate' | 'severe') => {
-    fatigueDetector.simulateFatigue(level);
+    rideEngine.run({ kind: 'simulate_fatigue', level });
     setFatigueLevel(level);
     toast.info(`Simulating ${level} fatigue`);
   };
   
   const handleSimulatePanic = () => {
-    fatigueDetector.simulatePanic();
+    rideEngine.run({ kind: 'simulate_panic' });
     setRiskLevel('critical');
     toast.warning('Simulating panic state');
   };
   
   const handleResetFatigue = () => {
-    fatigueDetector.resetSimulation();
+    rideEngine.run({ kind: 'reset_simulation' });
     setFatigueLevel('none');
     setRiskLevel('none');
     toast.success('Fatigue state reset');
@@ -487,6 +766,18 @@ const Index = () => {
           lastEvent={lastEvent}
           location={location}
           weatherData={weatherData}
+          samplingTier={samplingTier}
+          battery={battery}
+          gpsHealth={gpsHealth}
+          locationEstimate={locationEstimate}
+        />
+        
+        {/* Heat break countdown */}
+        <HeatRestCountdown
+          restStartedAt={heatStatus?.restStartedAt ?? null}
+          restEndsAt={heatStatus?.restEndsAt ?? null}
+          wbgt={heatStatus?.wbgt ?? null}
+          waterMlPerHour={heatStatus?.guideline.waterMlPerHour ?? 0}
         />
         
         {/* Tagline (when not riding) */}
@@ -549,14 +840,14 @@ const Index = () => {
       
       {/* Help Button */}
       <HelpButton 
-        onTrigger={handleEmergency}
+        onTrigger={() => handleEmergency('manual')}
         isEmergencyActive={isEmergencyActive}
       />
       
       {/* Emergency Overlay */}
       <EmergencyOverlay
         isActive={isEmergencyActive}
-        location={location}
+        location={emergencyLocation}
         onCancel={handleCancelEmergency}
         onResolve={handleResolveEmergency}
       />
@@ -568,6 +859,7 @@ const Index = () => {
         confidence={pendingConfirmation?.confidence || 0}
         onResult={handleConfirmationResult}
         onCancel={() => {
+          cancelEmergencyCountdown();
           if (pendingConfirmation?.location) {
             recordFalseAlarm(pendingConfirmation.location.lat, pendingConfirmation.location.lng);
           }
@@ -581,7 +873,7 @@ const Index = () => {
         onClose={() => setShowDemoControls(false)}
         onTriggerHeat={handleTriggerHeat}
         onTriggerUnsafeZone={handleTriggerUnsafeZone}
-        onTriggerEmergency={handleEmergency}
+        onTriggerEmergency={() => handleEmergency('manual')}
         onSimulateFatigue={handleSimulateFatigue}
         onSimulatePanic={handleSimulatePanic}
         onResetFatigue={handleResetFatigue}
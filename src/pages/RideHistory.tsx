@@ -1,7 +1,12 @@
 import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Clock, AlertTriangle, MapPin, CheckCircle } from 'lucide-react';
-import { getLocalRideHistory } from '@/lib/offlineStorage';
+import { ArrowLeft, Clock, AlertTriangle, MapPin, CheckCircle, Download, Bike, Coffee } from 'lucide-react';
+import { getLocalRideHistory, getLocalRiskEvents } from '@/lib/offlineStorage';
+import { downloadRideRoute } from '@/lib/routeExport';
+import type { RideSegment } from '@/lib/rideSegments';
+import type { FatigueTimeline } from '@/lib/fatigueTimeline';
+import { FatigueTimelineChart } from '@/components/FatigueTimelineChart';
+import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { getDeviceId } from '@/lib/deviceId';
 import { format } from 'date-fns';
@@ -13,6 +18,11 @@ interface RideSession {
   duration_seconds?: number | null;
   status: string;
   start_location?: { lat: number; lng: number } | null;
+  end_location?: { lat: number; lng: number } | null;
+  route_polyline?: string | null;
+  segments?: RideSegment[] | null;
+  active_seconds?: number | null;
+  fatigue_timeline?: FatigueTimeline | null;
 }
 
 interface RiskEvent {
@@ -21,9 +31,23 @@ interface RiskEvent {
   event_type: string;
   severity: string;
   message?: string | null;
+  location?: { lat: number; lng: number } | null;
   created_at: string;
 }
 
+function groupBySession(events: RiskEvent[]): Record<string, RiskEvent[]> {
+  const grouped: Record<string, RiskEvent[]> = {};
+  events.forEach(event => {
+    if (event.ride_session_id && !grouped[event.ride_session_id]) {
+      grouped[event.ride_session_id] = [];
+    }
+    if (event.ride_session_id) {
+      grouped[event.ride_session_id].push(event);
+    }
+  });
+  return grouped;
+}
+
 export default function RideHistory() {
   const [rides, setRides] = useState<RideSession[]>([]);
   const [riskEvents, setRiskEvents] = useState<Record<string, RiskEvent[]>>({});
@@ -39,6 +63,8 @@ export default function RideHistory() {
     // First get local data
     const localRides = getLocalRideHistory();
     setRides(localRides);
+    const localEvents = groupBySession(getLocalRiskEvents());
+    setRiskEvents(localEvents);
     
     // Then try to fetch from cloud
     try {
@@ -58,6 +84,11 @@ export default function RideHistory() {
           duration_seconds: r.duration_seconds,
           status: r.status,
           start_location: r.start_location as { lat: number; lng: number } | null,
+          end_location: r.end_location as { lat: number; lng: number } | null,
+          route_polyline: r.route_polyline,
+          segments: r.segments as unknown as RideSegment[] | null,
+          active_seconds: r.active_seconds,
+          fatigue_timeline: r.fatigue_timeline as unknown as FatigueTimeline | null,
         }));
         
         // Merge local and cloud, preferring cloud data
@@ -80,16 +111,12 @@ export default function RideHistory() {
           .in('ride_session_id', rideIds);
         
         if (events) {
-          const grouped: Record<string, RiskEvent[]> = {};
-          events.forEach(event => {
-            if (event.ride_session_id && !grouped[event.ride_session_id]) {
-              grouped[event.ride_session_id] = [];
-            }
-            if (event.ride_session_id) {
-              grouped[event.ride_session_id].push(event);
-            }
-          });
-          setRiskEvents(grouped);
+          // Cloud events win for synced rides, local ones fill the rest
+          const grouped = groupBySession(events.map(e => ({
+            ...e,
+            location: e.location as { lat: number; lng: number } | null,
+          })));
+          setRiskEvents({ ...localEvents, ...grouped });
         }
       }
     } catch (error) {
@@ -147,6 +174,7 @@ export default function RideHistory() {
           rides.map(ride => {
             const events = riskEvents[ride.id] || [];
             const hasRisks = events.length > 0;
+            const stops = (ride.segments || []).filter(s => s.kind === 'stopped');
             
             return (
               <div 
@@ -175,11 +203,23 @@ export default function RideHistory() {
                 </div>
 
                 {/* Stats */}
-                <div className="flex items-center gap-4 text-sm">
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
                   <div className="flex items-center gap-1.5 text-muted-foreground">
                     <Clock className="w-4 h-4" />
                     <span>{formatDuration(ride.duration_seconds)}</span>
                   </div>
+                  {ride.active_seconds != null && (
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      <Bike className="w-4 h-4" />
+                      <span>{formatDuration(ride.active_seconds)} riding</span>
+                    </div>
+                  )}
+                  {stops.length > 0 && (
+                    <div className="flex items-center gap-1.5 text-muted-foreground">
+                      <Coffee className="w-4 h-4" />
+                      <span>{stops.length} {stops.length === 1 ? 'stop' : 'stops'}</span>
+                    </div>
+                  )}
                   {ride.start_location && (
                     <div className="flex items-center gap-1.5 text-muted-foreground">
                       <MapPin className="w-4 h-4" />
@@ -190,6 +230,33 @@ export default function RideHistory() {
                   )}
                 </div>
 
+                {/* Route export */}
+                {(ride.route_polyline || ride.start_location) && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadRideRoute(ride, events, 'gpx')}
+                    >
+                      <Download className="w-4 h-4 mr-1.5" />
+                      GPX
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => downloadRideRoute(ride, events, 'geojson')}
+                    >
+                      <Download className="w-4 h-4 mr-1.5" />
+                      GeoJSON
+                    </Button>
+                  </div>
+                )}
+
+                {/* Fatigue timeline */}
+                {ride.fatigue_timeline && (
+                  <FatigueTimelineChart timeline={ride.fatigue_timeline} />
+                )}
+
                 {/* Risk events */}
                 {hasRisks && (
                   <div className="pt-2 border-t border-border space-y-2">
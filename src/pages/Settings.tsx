@@ -10,10 +10,14 @@ import {
   ChevronRight,
   Smartphone,
   History,
-  Shield
+  Shield,
+  Bike,
+  Moon,
+  Clock
 } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { 
   Select,
   SelectContent,
@@ -35,6 +39,12 @@ import {
 import { toast } from 'sonner';
 import { getLocalRideHistory, cleanupOldData } from '@/lib/offlineStorage';
 import { SafetyCreditsSection } from '@/components/SafetyCreditsSection';
+import { KnownPlacesSection } from '@/components/KnownPlacesSection';
+import { FatigueBaselineSection } from '@/components/FatigueBaselineSection';
+import { VEHICLE_PROFILES, DEFAULT_VEHICLE_TYPE, getVehicleProfile, type VehicleType } from '@/lib/vehicleProfiles';
+import type { AutoRideMode } from '@/lib/autoRide';
+import { DEFAULT_DEAD_MANS_SWITCH, type DeadMansSwitchMode, type DeadMansSwitchSettings } from '@/lib/deadMansSwitch';
+import { DEFAULT_DAILY_CAP_HOURS, getShiftContext } from '@/lib/shiftFatigue';
 
 interface AppSettings {
   language: string;
@@ -42,6 +52,11 @@ interface AppSettings {
   vibrationAlerts: boolean;
   autoEmergency: boolean;
   locationSharing: boolean;
+  recordSensorTrace: boolean;
+  vehicleProfile: VehicleType;
+  autoRideMode: AutoRideMode;
+  deadMansSwitch: DeadMansSwitchSettings;
+  dailyRideCapHours: number;
 }
 
 const LANGUAGES = [
@@ -107,14 +122,26 @@ export default function Settings() {
     vibrationAlerts: true,
     autoEmergency: true,
     locationSharing: true,
+    recordSensorTrace: false,
+    vehicleProfile: DEFAULT_VEHICLE_TYPE,
+    autoRideMode: 'off',
+    deadMansSwitch: DEFAULT_DEAD_MANS_SWITCH,
+    dailyRideCapHours: DEFAULT_DAILY_CAP_HOURS,
   });
   const [rideCount, setRideCount] = useState(0);
+  const [shift] = useState(() => getShiftContext());
+  const vehicle = getVehicleProfile(settings.vehicleProfile);
 
   useEffect(() => {
     // Load saved settings
     const saved = localStorage.getItem(SETTINGS_KEY);
     if (saved) {
-      setSettings(JSON.parse(saved));
+      const parsed = JSON.parse(saved);
+      setSettings(prev => ({
+        ...prev,
+        ...parsed,
+        deadMansSwitch: { ...DEFAULT_DEAD_MANS_SWITCH, ...parsed.deadMansSwitch },
+      }));
     } else {
       // Detect browser language
       const browserLang = navigator.language.split('-')[0];
@@ -136,6 +163,10 @@ export default function Settings() {
     toast.success('Setting updated');
   };
 
+  const updateDeadMansSwitch = <K extends keyof DeadMansSwitchSettings>(key: K, value: DeadMansSwitchSettings[K]) => {
+    updateSetting('deadMansSwitch', { ...settings.deadMansSwitch, [key]: value });
+  };
+
   const handleClearData = () => {
     localStorage.removeItem('kavach_ride_sessions');
     localStorage.removeItem('kavach_risk_events');
@@ -248,6 +279,34 @@ export default function Settings() {
           </Link>
         </section>
 
+        {/* Vehicle */}
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+            <Bike className="w-4 h-4" />
+            <span>Vehicle</span>
+          </div>
+          <div className="bg-card border border-border rounded-xl p-4 space-y-3">
+            <Select 
+              value={settings.vehicleProfile} 
+              onValueChange={(v) => updateSetting('vehicleProfile', v as VehicleType)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(VEHICLE_PROFILES).map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.icon} {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Speed alert above {vehicle.speedThresholdKmh} km/h · Idle check after {Math.round(vehicle.idleWarningMs / 60000)} min
+            </p>
+          </div>
+        </section>
+
         {/* Language */}
         <section className="space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
@@ -320,9 +379,161 @@ export default function Settings() {
                 onCheckedChange={(v) => updateSetting('locationSharing', v)}
               />
             </div>
+            <div className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="font-medium">Auto Start/Stop</p>
+                <p className="text-sm text-muted-foreground">Notice when you start riding or park</p>
+              </div>
+              <Select 
+                value={settings.autoRideMode} 
+                onValueChange={(v) => updateSetting('autoRideMode', v as AutoRideMode)}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="ask">Ask me</SelectItem>
+                  <SelectItem value="auto">Automatic</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
         </section>
 
+        {/* Night Safety */}
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+            <Moon className="w-4 h-4" />
+            <span>Night Safety</span>
+          </div>
+          <div className="bg-card border border-border rounded-xl divide-y divide-border">
+            <div className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="font-medium">Check-in Prompts</p>
+                <p className="text-sm text-muted-foreground">No answer raises an emergency</p>
+              </div>
+              <Select 
+                value={settings.deadMansSwitch.mode} 
+                onValueChange={(v) => updateDeadMansSwitch('mode', v as DeadMansSwitchMode)}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="off">Off</SelectItem>
+                  <SelectItem value="scheduled">Night hours</SelectItem>
+                  <SelectItem value="always">Every ride</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {settings.deadMansSwitch.mode !== 'off' && (
+              <>
+                <div className="flex items-center justify-between gap-4 p-4">
+                  <div>
+                    <p className="font-medium">Ask Every</p>
+                    <p className="text-sm text-muted-foreground">Answer by voice, tap or shake</p>
+                  </div>
+                  <Select 
+                    value={String(settings.deadMansSwitch.intervalMinutes)} 
+                    onValueChange={(v) => updateDeadMansSwitch('intervalMinutes', Number(v))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[5, 10, 15, 20, 30].map(minutes => (
+                        <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between gap-4 p-4">
+                  <div>
+                    <p className="font-medium">Time to Answer</p>
+                    <p className="text-sm text-muted-foreground">Before the emergency countdown</p>
+                  </div>
+                  <Select 
+                    value={String(settings.deadMansSwitch.graceSeconds)} 
+                    onValueChange={(v) => updateDeadMansSwitch('graceSeconds', Number(v))}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[30, 60, 90, 120].map(seconds => (
+                        <SelectItem key={seconds} value={String(seconds)}>{seconds} s</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {settings.deadMansSwitch.mode === 'scheduled' && (
+                  <div className="flex items-center justify-between gap-4 p-4">
+                    <div>
+                      <p className="font-medium">Night Hours</p>
+                      <p className="text-sm text-muted-foreground">Turns on by itself in this window</p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-28"
+                        value={settings.deadMansSwitch.windowStart}
+                        onChange={(e) => e.target.value && updateDeadMansSwitch('windowStart', e.target.value)}
+                      />
+                      <span className="text-muted-foreground">–</span>
+                      <Input
+                        type="time"
+                        className="w-28"
+                        value={settings.deadMansSwitch.windowEnd}
+                        onChange={(e) => e.target.value && updateDeadMansSwitch('windowEnd', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </section>
+
+        {/* Shift */}
+        <section className="space-y-3">
+          <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
+            <Clock className="w-4 h-4" />
+            <span>Shift</span>
+          </div>
+          <div className="bg-card border border-border rounded-xl divide-y divide-border">
+            <div className="flex items-center justify-between gap-4 p-4">
+              <div>
+                <p className="font-medium">Daily Riding Limit</p>
+                <p className="text-sm text-muted-foreground">Across all of today's rides</p>
+              </div>
+              <Select 
+                value={String(settings.dailyRideCapHours)} 
+                onValueChange={(v) => updateSetting('dailyRideCapHours', Number(v))}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[6, 8, 10, 12].map(hours => (
+                    <SelectItem key={hours} value={String(hours)}>{hours} h</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="p-4 text-sm text-muted-foreground">
+              {shift.rides > 0
+                ? `This shift: ${shift.rides} ride${shift.rides === 1 ? '' : 's'}, ${Math.round(shift.ridingMs / 60000)} min riding`
+                : 'No rides yet this shift'}
+              {shift.rides > 0 && shift.consecutiveDays > 1 && ` · ${shift.consecutiveDays} days in a row`}
+            </div>
+          </div>
+        </section>
+
+        <FatigueBaselineSection vehicleType={settings.vehicleProfile} />
+
+        <KnownPlacesSection />
+
         {/* Delivery Partner Apps */}
         <section className="space-y-3">
           <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground uppercase tracking-wide">
@@ -363,6 +574,16 @@ export default function Settings() {
                 Export
               </Button>
             </div>
+            <div className="flex items-center justify-between p-4">
+              <div>
+                <p className="font-medium">Record Sensor Trace</p>
+                <p className="text-sm text-muted-foreground">Save raw GPS & motion for replay</p>
+              </div>
+              <Switch 
+                checked={settings.recordSensorTrace}
+                onCheckedChange={(v) => updateSetting('recordSensorTrace', v)}
+              />
+            </div>
             <div className="flex items-center justify-between p-4">
               <div>
                 <p className="font-medium text-destructive">Clear All Data</p>
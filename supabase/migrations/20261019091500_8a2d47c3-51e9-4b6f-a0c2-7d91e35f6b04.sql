@@ -0,0 +1,2 @@
+-- Vehicle profile the ride was monitored with (bicycle, ebike, scooter, motorcycle)
+ALTER TABLE public.ride_sessions ADD COLUMN vehicle_profile TEXT;
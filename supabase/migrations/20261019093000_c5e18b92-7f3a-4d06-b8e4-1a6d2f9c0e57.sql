@@ -0,0 +1,2 @@
+-- Breadcrumb track of the ride (encoded polyline with seconds since start as a third value)
+ALTER TABLE public.ride_sessions ADD COLUMN route_polyline TEXT;
@@ -0,0 +1,9 @@
+-- Harsh driving events: braking, acceleration and cornering
+ALTER TABLE public.risk_events DROP CONSTRAINT IF EXISTS risk_events_event_type_check;
+
+ALTER TABLE public.risk_events ADD CONSTRAINT risk_events_event_type_check
+CHECK (event_type IN (
+  'speed_warning', 'heat_warning', 'unsafe_zone', 'sudden_stop', 'fall_detected',
+  'crash_detected', 'harsh_braking', 'harsh_acceleration', 'sharp_cornering',
+  'long_idle', 'wellness_check', 'rain_warning', 'extreme_weather', 'high_wind'
+));
@@ -0,0 +1,3 @@
+-- Riding legs and stops within a ride, and riding time excluding stops
+ALTER TABLE public.ride_sessions ADD COLUMN segments JSONB;
+ALTER TABLE public.ride_sessions ADD COLUMN active_seconds INTEGER;
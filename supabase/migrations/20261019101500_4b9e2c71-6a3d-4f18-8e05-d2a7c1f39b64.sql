@@ -0,0 +1,6 @@
+-- Risk event types come from the detector registry, so plugins can add types without a migration.
+-- Replace the fixed list with the format the registry enforces: lower_snake_case.
+ALTER TABLE public.risk_events DROP CONSTRAINT IF EXISTS risk_events_event_type_check;
+
+ALTER TABLE public.risk_events ADD CONSTRAINT risk_events_event_type_check
+CHECK (event_type ~ '^[a-z][a-z0-9_]{1,48}$');
@@ -0,0 +1,93 @@
+-- Crowdsourced road quality: potholes, speed breakers and rough surfaces felt by riders.
+-- One row per device, cell and kind; the app upserts it as the device hits the same spot again.
+CREATE TABLE public.road_quality_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  device_id TEXT NOT NULL,
+  cell_id TEXT NOT NULL,
+  report_type TEXT NOT NULL CHECK (report_type IN ('pothole', 'speed_breaker', 'rough_surface')),
+  severity TEXT NOT NULL DEFAULT 'low' CHECK (severity IN ('low', 'medium', 'high')),
+  hit_count INTEGER NOT NULL DEFAULT 1,
+  peak_g REAL,
+  location JSONB NOT NULL,
+  last_reported_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(device_id, cell_id, report_type)
+);
+
+ALTER TABLE public.road_quality_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read road quality reports"
+ON public.road_quality_reports FOR SELECT
+USING (true);
+
+CREATE POLICY "Devices can insert road quality reports"
+ON public.road_quality_reports FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Devices can update own road quality reports"
+ON public.road_quality_reports FOR UPDATE
+USING (true);
+
+CREATE INDEX idx_road_quality_reports_cell_id ON public.road_quality_reports(cell_id);
+
+-- Zones promoted from road reports remember their cell, so later reports update the same zone
+ALTER TABLE public.unsafe_zones ADD COLUMN source_cell_id TEXT UNIQUE;
+
+-- Once enough different devices agree on a cell in the last 90 days, it becomes a poor_road zone.
+-- Speed breakers on their own are expected road furniture, not a hazard, so they don't count.
+CREATE OR REPLACE FUNCTION public.promote_road_quality_cell()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  min_devices CONSTANT INTEGER := 3;
+  device_count INTEGER;
+  high_count INTEGER;
+  medium_count INTEGER;
+  center JSONB;
+BEGIN
+  SELECT
+    COUNT(DISTINCT device_id),
+    COUNT(DISTINCT device_id) FILTER (WHERE severity = 'high'),
+    COUNT(DISTINCT device_id) FILTER (WHERE severity IN ('medium', 'high')),
+    jsonb_build_object(
+      'lat', AVG((location->>'lat')::DOUBLE PRECISION),
+      'lng', AVG((location->>'lng')::DOUBLE PRECISION)
+    )
+  INTO device_count, high_count, medium_count, center
+  FROM public.road_quality_reports
+  WHERE cell_id = NEW.cell_id
+    AND report_type IN ('pothole', 'rough_surface')
+    AND last_reported_at > now() - INTERVAL '90 days';
+
+  IF device_count < min_devices THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.unsafe_zones (location, radius_meters, risk_type, severity, reports_count, active, source_cell_id)
+  VALUES (
+    center,
+    30,
+    'poor_road',
+    CASE WHEN high_count >= 2 THEN 'high' WHEN medium_count >= 2 THEN 'medium' ELSE 'low' END,
+    device_count,
+    TRUE,
+    NEW.cell_id
+  )
+  ON CONFLICT (source_cell_id) DO UPDATE SET
+    location = EXCLUDED.location,
+    severity = EXCLUDED.severity,
+    reports_count = EXCLUDED.reports_count,
+    active = TRUE,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER promote_road_quality_cell
+AFTER INSERT OR UPDATE ON public.road_quality_reports
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_road_quality_cell();
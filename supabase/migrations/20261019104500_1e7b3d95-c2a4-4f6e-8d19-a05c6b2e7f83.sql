@@ -0,0 +1,30 @@
+-- Wellness check-ins asked during long rides, and how the rider answered
+CREATE TABLE public.wellness_checks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  ride_session_id UUID REFERENCES public.ride_sessions(id) ON DELETE CASCADE,
+  device_id TEXT NOT NULL,
+  result TEXT NOT NULL CHECK (result IN ('ok', 'danger', 'missed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  response_time_ms INTEGER,
+  interval_minutes INTEGER,
+  fatigue_level TEXT CHECK (fatigue_level IN ('none', 'mild', 'moderate', 'severe')),
+  feels_like REAL,
+  contacts_notified INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.wellness_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Devices can read own wellness checks"
+ON public.wellness_checks FOR SELECT
+USING (true);
+
+CREATE POLICY "Devices can insert wellness checks"
+ON public.wellness_checks FOR INSERT
+WITH CHECK (true);
+
+CREATE POLICY "Devices can update own wellness checks"
+ON public.wellness_checks FOR UPDATE
+USING (true);
+
+CREATE INDEX idx_wellness_checks_ride_session ON public.wellness_checks(ride_session_id);
@@ -0,0 +1,5 @@
+-- Dead-man's switch: an unanswered night check-in raises an emergency of its own kind
+ALTER TABLE public.emergency_events DROP CONSTRAINT IF EXISTS emergency_events_trigger_type_check;
+
+ALTER TABLE public.emergency_events ADD CONSTRAINT emergency_events_trigger_type_check
+CHECK (trigger_type IN ('manual', 'auto_fall', 'auto_idle', 'auto_crash', 'missed_check_in'));
@@ -0,0 +1,2 @@
+-- Fatigue scores and their components through the ride, and each nudge with whether the rider stopped
+ALTER TABLE public.ride_sessions ADD COLUMN fatigue_timeline JSONB;
@@ -0,0 +1,5 @@
+-- Missed check-ins raise an emergency, which alerts contacts; record that, not a contact count
+ALTER TABLE public.wellness_checks ALTER COLUMN contacts_notified DROP DEFAULT;
+ALTER TABLE public.wellness_checks ALTER COLUMN contacts_notified TYPE BOOLEAN USING contacts_notified > 0;
+ALTER TABLE public.wellness_checks ALTER COLUMN contacts_notified SET DEFAULT false;
+ALTER TABLE public.wellness_checks RENAME COLUMN contacts_notified TO emergency_raised;